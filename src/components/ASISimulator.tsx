@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
@@ -6,20 +6,58 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Brain, Zap, Atom, Network, Shield, TrendingUp, Activity, Cpu, Settings, RotateCcw, FastForward, Target, Eye, Play, Globe } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Brain, Zap, Atom, Network, Shield, TrendingUp, Activity, Cpu, Settings, RotateCcw, FastForward, Target, Eye, Play, Globe, Dices, SlidersHorizontal } from 'lucide-react';
 import IntelligenceGrowthChart from './IntelligenceGrowthChart';
 import ResonanceVisualization from './ResonanceVisualization';
+import PhaseSynchronizationPanel from './PhaseSynchronizationPanel';
+import SpectrumPanel from './SpectrumPanel';
+import FractalDimensionPanel from './FractalDimensionPanel';
 import AgentNetwork from './AgentNetwork';
+import CouplingMatrixEditor from './CouplingMatrixEditor';
+import AgentArchetypePanel from './AgentArchetypePanel';
 import ComplexityComparison from './ComplexityComparison';
-
-interface SimulationParameters {
-  alpha: number;
-  delta: number;
-  agentCount: number;
-  ethicalThreshold: number;
-  resonanceStrength: number;
-  parameterN: number;
-}
+import ResonanceLandscapePanel from './ResonanceLandscapePanel';
+import EnsemblePanel from './EnsemblePanel';
+import SensitivityPanel from './SensitivityPanel';
+import SweepPanel from './SweepPanel';
+import RobustnessPanel from './RobustnessPanel';
+import GovernorComparison from './GovernorComparison';
+import EthicsDashboard from './EthicsDashboard';
+import JobError from './JobError';
+import { useSimulation } from '@/hooks/use-simulation';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { useTimeSeries } from '@/hooks/use-time-series';
+import {
+  SimulationParameters,
+  DEFAULT_PARAMETERS,
+  MIN_SPEED,
+  MAX_SPEED,
+  DimensionAnalysis,
+  EnsembleResult,
+  FORMULAS,
+  EthicsEvent,
+  FormulaId,
+  GOVERNOR_IDS,
+  GROWTH_REGIME_IDS,
+  GovernorId,
+  GrowthRegime,
+  INTERVENTION_LADDER,
+  InterventionKind,
+  NoiseModel,
+  SolverKind,
+  agentCountPatch,
+  analyticGrowth,
+  calculateComplexity,
+  estimateASITime,
+  hasAnalyticSolution,
+  networkEditPatch,
+  randomSeed,
+  regimeFormula
+} from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
 
 interface InteractiveState {
   showFormulas: boolean;
@@ -30,6 +68,39 @@ interface InteractiveState {
 
 type LanguageMode = 'bilingual' | 'russian' | 'english';
 
+interface FormulaCard {
+  formula: FormulaId;
+  titleKey: string;
+  className: string;
+}
+
+const FORMULA_CARDS: FormulaCard[] = [
+  { formula: 'intelligence', titleKey: 'intelligenceGrowthFormula', className: 'text-neural' },
+  { formula: 'resonanceFrequency', titleKey: 'resonanceFreq', className: 'text-quantum' },
+  { formula: 'hypotheses', titleKey: 'hypothesesGrowth', className: 'text-resonance' },
+  { formula: 'complexity', titleKey: 'complexityFormula', className: 'text-energy' },
+  { formula: 'emergence', titleKey: 'emergence', className: 'text-warning' },
+  { formula: 'asiTime', titleKey: 'asiAchievementTime', className: 'text-resonance' }
+];
+
+const INTERVENTION_TEXT_KEYS: Record<InterventionKind, string> = {
+  throttle: 'throttleAlpha',
+  'pause-self-modification': 'pauseSelfModification',
+  quarantine: 'quarantineAgents'
+};
+
+const GOVERNOR_TEXT_KEYS: Record<GovernorId, string> = {
+  'growth-cap': 'growthCapGovernor',
+  consensus: 'consensusGovernor',
+  tripwire: 'tripwireGovernor'
+};
+
+const eventTextKey = (event: EthicsEvent) => {
+  if (event.intervention) return INTERVENTION_TEXT_KEYS[event.intervention];
+  if (event.type === 'governor' && event.governor) return GOVERNOR_TEXT_KEYS[event.governor];
+  return event.type;
+};
+
 interface LanguageTexts {
   [key: string]: {
     ru: string;
@@ -38,18 +109,11 @@ interface LanguageTexts {
 }
 
 const ASISimulator: React.FC = () => {
-  const [isRunning, setIsRunning] = useState(false);
-  const [is10xAccelerated, setIs10xAccelerated] = useState(false);
-  const [simulationTime, setSimulationTime] = useState(0);
   const [languageMode, setLanguageMode] = useState<LanguageMode>('bilingual');
-  const [parameters, setParameters] = useState<SimulationParameters>({
-    alpha: 0.44,
-    delta: 0.17,
-    agentCount: 13,
-    ethicalThreshold: 0.8,
-    resonanceStrength: 1.2,
-    parameterN: 13
-  });
+  const [parameters, setParameters] = useState<SimulationParameters>(DEFAULT_PARAMETERS);
+  const simulation = useSimulation(parameters);
+  const ensemble = useBackgroundJob<EnsembleResult>();
+  const dimension = useBackgroundJob<DimensionAnalysis>();
 
   const [interactiveState, setInteractiveState] = useState<InteractiveState>({
     showFormulas: true,
@@ -58,96 +122,53 @@ const ASISimulator: React.FC = () => {
     parameterN: 13
   });
 
-  const [metrics, setMetrics] = useState({
-    intelligence: 1.0,
-    hypotheses: 100,
-    resonancePoints: 0,
-    ethicalScore: 0.95,
-    complexity: 'O(n²)',
-    asiProgress: 0
-  });
+  const { time: simulationTime, metrics, ethics, events, governor } = simulation.state;
+  const ethicsHistory = useTimeSeries(simulationTime, ethics.score);
+  const resonanceHistory = useTimeSeries(simulationTime, metrics.resonance);
+  const isRunning = simulation.isRunning && !simulation.isPaused;
+  // The closed form only describes the unperturbed run; noise, ethics interventions and governors all bend it away
+  const unperturbed = parameters.noiseModel === 'none' &&
+    ethics.interventionCount === 0 &&
+    governor.active.length === 0 &&
+    !governor.halted;
+  const analyticIntelligence = parameters.growthModel === 'numerical' && hasAnalyticSolution(parameters) && unperturbed
+    ? analyticGrowth(simulationTime, parameters).intelligence
+    : undefined;
+  const asiTime = estimateASITime(parameters);
+  const formulaFor = (formula: FormulaId) => FORMULAS[regimeFormula(parameters.regime, formula)];
 
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRunning) {
-      const timeStep = is10xAccelerated ? 1.0 : 0.1;
-      const intervalTime = is10xAccelerated ? 10 : 100;
-      
-      interval = setInterval(() => {
-        setSimulationTime(prev => prev + timeStep);
-        updateMetrics();
-      }, intervalTime);
-    }
-    return () => clearInterval(interval);
-  }, [isRunning, is10xAccelerated, parameters]);
-
-  const updateMetrics = () => {
-    setMetrics(prev => {
-      const t = simulationTime;
-      const { alpha, delta, agentCount, resonanceStrength } = parameters;
-      
-      // Intelligence growth: I(t) = I₀ + (δQ₀/α)(e^(αt) - 1)
-      const intelligence = 1.0 + (0.5 * 100 / alpha) * (Math.exp(alpha * t) - 1);
-      
-      // Hypotheses growth: Q(t) = Q₀ * e^(αt)
-      const hypotheses = 100 * Math.exp(alpha * t);
-      
-      // Resonance points based on fractal dimension
-      const resonancePoints = Math.floor(agentCount * agentCount * resonanceStrength * Math.sin(t * 0.5) + agentCount);
-      
-      // ASI progress (when intelligence > 100x human baseline)
-      const asiProgress = Math.min(100, Math.max(0, (intelligence - 100) / 900 * 100));
-      
-      return {
-        intelligence: Math.min(intelligence, 10000),
-        hypotheses: Math.min(hypotheses, 1000000),
-        resonancePoints: Math.max(0, resonancePoints),
-        ethicalScore: Math.max(0.5, prev.ethicalScore + (Math.random() - 0.5) * 0.02),
-        complexity: 'O(n²)',
-        asiProgress
-      };
+  const setSolverMode = (mode: string) => {
+    setParameters(prev => {
+      if (mode === 'analytic' || mode === 'agent-based') return { ...prev, growthModel: mode };
+      return { ...prev, growthModel: 'numerical', solver: mode as SolverKind };
     });
   };
+  const is10xAccelerated = simulation.speed === 10;
 
   const toggleSimulation = () => {
-    setIsRunning(!isRunning);
-    if (!isRunning) {
-      setSimulationTime(0);
-      setMetrics({
-        intelligence: 1.0,
-        hypotheses: 100,
-        resonancePoints: 0,
-        ethicalScore: 0.95,
-        complexity: 'O(n²)',
-        asiProgress: 0
-      });
+    if (simulation.isRunning) {
+      simulation.stop();
+    } else {
+      simulation.start();
+    }
+  };
+
+  const togglePause = () => {
+    if (simulation.isPaused) {
+      simulation.resume();
+    } else {
+      simulation.pause();
     }
   };
 
   const resetSimulation = () => {
-    setIsRunning(false);
-    setSimulationTime(0);
-    setMetrics({
-      intelligence: 1.0,
-      hypotheses: 100,
-      resonancePoints: 0,
-      ethicalScore: 0.95,
-      complexity: 'O(n²)',
-      asiProgress: 0
-    });
+    simulation.reset();
   };
 
   // Interactive functions
   const resetParameters = () => {
-    setParameters({
-      alpha: 0.44,
-      delta: 0.17,
-      agentCount: 13,
-      ethicalThreshold: 0.8,
-      resonanceStrength: 1.2,
-      parameterN: 13
-    });
-    setInteractiveState(prev => ({ ...prev, parameterN: 13 }));
+    setParameters(DEFAULT_PARAMETERS);
+    setInteractiveState(prev => ({ ...prev, parameterN: DEFAULT_PARAMETERS.parameterN }));
   };
 
   const setExponentialMode = () => {
@@ -159,32 +180,21 @@ const ASISimulator: React.FC = () => {
   };
 
   const setCriticalMass = () => {
-    setParameters(prev => ({ ...prev, agentCount: 25 }));
+    setParameters(prev => ({ ...prev, ...agentCountPatch(prev, 25) }));
     setInteractiveState(prev => ({ ...prev, isCriticalMass: true, parameterN: 25 }));
   };
 
-  const toggleFormulas = () => {
-    setInteractiveState(prev => ({ ...prev, showFormulas: !prev.showFormulas }));
-  };
-
-  // Calculations
-  const calculateComplexity = (n: number) => ({
-    traditional: Math.pow(2, n),
-    hybrid: n * n,
-    acceleration: Math.pow(2, n) / (n * n),
-    timeSaved: (1 - (n * n) / Math.pow(2, n)) * 100
-  });
-
-  const calculateResonance = () => {
-    return (parameters.resonanceStrength * parameters.alpha).toFixed(3);
+  // Analysis panels apply their optimum as a plain patch; an agent count still has to carry the hand edits along
+  const applyPatch = (patch: Partial<SimulationParameters>) => {
+    setParameters(prev => {
+      const { agentCount, ...rest } = patch;
+      const next = { ...prev, ...rest };
+      return agentCount === undefined ? next : { ...next, ...agentCountPatch(next, agentCount) };
+    });
   };
 
-  const calculateASITime = () => {
-    const { alpha, delta } = parameters;
-    const I_ASI = 1000; // Target ASI intelligence
-    const I_0 = 1.0;
-    const Q_0 = 100;
-    return (1 / alpha) * Math.log((alpha * (I_ASI - I_0)) / (delta * Q_0) + 1);
+  const toggleFormulas = () => {
+    setInteractiveState(prev => ({ ...prev, showFormulas: !prev.showFormulas }));
   };
 
   const getEfficiencyColor = (acceleration: number) => {
@@ -205,10 +215,27 @@ const ASISimulator: React.FC = () => {
     efficiency: { ru: 'эффективность', en: 'efficiency' },
     agents: { ru: 'Агенты', en: 'Agents' },
     ethics: { ru: 'Этика', en: 'Ethics' },
+    ethicalScore: { ru: 'Этическая оценка', en: 'Ethical score' },
+    throttleAlpha: { ru: 'Ограничение α', en: 'α throttled' },
+    pauseSelfModification: { ru: 'Самомодификация приостановлена', en: 'Self-modification paused' },
+    quarantineAgents: { ru: 'Карантин агентов', en: 'Agents quarantined' },
+    violation: { ru: 'Нарушение порога', en: 'Threshold violated' },
+    recovery: { ru: 'Восстановление', en: 'Recovered' },
+    governors: { ru: 'Политики выравнивания', en: 'Alignment governors' },
+    growthCapGovernor: { ru: 'Ограничение роста', en: 'Growth cap' },
+    consensusGovernor: { ru: 'Консенсус агентов', en: 'Agent consensus' },
+    tripwireGovernor: { ru: 'Аварийное отключение', en: 'Tripwire shutdown' },
+    shutdown: { ru: 'Аварийное отключение', en: 'Shutdown' },
+    noEthicsEvents: { ru: 'Порог не пересекался', en: 'Threshold not crossed yet' },
     stop: { ru: 'Остановить', en: 'Stop' },
     start: { ru: 'Запустить', en: 'Start' },
+    pause: { ru: 'Пауза', en: 'Pause' },
+    resume: { ru: 'Продолжить', en: 'Resume' },
+    stepOnce: { ru: 'Шаг', en: 'Step' },
+    speed: { ru: 'Скорость', en: 'Speed' },
     acceleration: { ru: 'Ускорение', en: 'Acceleration' },
     reset: { ru: 'Сброс', en: 'Reset' },
+    simulationError: { ru: 'Симуляция остановлена из-за ошибки', en: 'Simulation stopped by an error' },
     intelligence: { ru: 'Интеллект', en: 'Intelligence' },
     hypotheses: { ru: 'Гипотезы', en: 'Hypotheses' },
     resonance: { ru: 'Резонанс', en: 'Resonance' },
@@ -223,6 +250,30 @@ const ASISimulator: React.FC = () => {
     asiTime: { ru: 'ASI время', en: 'ASI time' },
     efficiencyParam: { ru: 'Эффективность (δ)', en: 'Efficiency (δ)' },
     agentCount: { ru: 'Количество агентов', en: 'Number of agents' },
+    initialIntelligence: { ru: 'Начальный интеллект (I₀)', en: 'Initial intelligence (I₀)' },
+    initialHypotheses: { ru: 'Начальные гипотезы (Q₀)', en: 'Initial hypotheses (Q₀)' },
+    growthModel: { ru: 'Модель роста', en: 'Growth model' },
+    growthRegime: { ru: 'Режим роста', en: 'Growth regime' },
+    exponentialRegime: { ru: 'Экспоненциальный', en: 'Exponential' },
+    logisticRegime: { ru: 'Логистический', en: 'Logistic' },
+    gompertzRegime: { ru: 'Гомпертц', en: 'Gompertz' },
+    computeRegime: { ru: 'Лимит вычислений', en: 'Compute budget' },
+    noiseModel: { ru: 'Стохастический режим', en: 'Stochastic mode' },
+    deterministic: { ru: 'Детерминированный', en: 'Deterministic' },
+    gbm: { ru: 'Геометрическое броуновское', en: 'Geometric Brownian' },
+    volatility: { ru: 'волатильность', en: 'volatility' },
+    reversion: { ru: 'возврат к среднему', en: 'mean reversion' },
+    seed: { ru: 'Зерно генератора', en: 'Random seed' },
+    newSeed: { ru: 'Новое зерно', en: 'New seed' },
+    carryingCapacity: { ru: 'Ёмкость (K)', en: 'Carrying capacity (K)' },
+    computeBudget: { ru: 'Бюджет вычислений (R)', en: 'Compute budget (R)' },
+    analyticModel: { ru: 'Аналитическая', en: 'Analytic' },
+    saturation: { ru: 'Насыщение (s)', en: 'Saturation (s)' },
+    feedback: { ru: 'Обратная связь (f)', en: 'Feedback (f)' },
+    damping: { ru: 'Затухание (d)', en: 'Damping (d)' },
+    agentBasedModel: { ru: 'Агентная модель', en: 'Agent-based' },
+    exchangeRate: { ru: 'Обмен гипотезами (s)', en: 'Hypothesis exchange (s)' },
+    coupling: { ru: 'Связность (γ)', en: 'Coupling (γ)' },
     criticalMassAchieved: { ru: 'Критическая масса достигнута!', en: 'Critical mass achieved!' },
     controlModes: { ru: 'Режимы Управления', en: 'Control Modes' },
     resetParams: { ru: 'Сброс параметров', en: 'Reset parameters' },
@@ -238,6 +289,7 @@ const ASISimulator: React.FC = () => {
     intelligenceGrowth: { ru: 'Рост Интеллекта', en: 'Intelligence Growth' },
     agentNetwork: { ru: 'Сеть Агентов', en: 'Agent Network' },
     complexity: { ru: 'Сложность', en: 'Complexity' },
+    analysis: { ru: 'Анализ', en: 'Analysis' },
     mathFoundations: { ru: 'Математические Основы', en: 'Mathematical Foundations' },
     intelligenceGrowthFormula: { ru: 'Рост Интеллекта', en: 'Intelligence Growth' },
     resonanceFreq: { ru: 'Резонансная Частота', en: 'Resonance Frequency' },
@@ -373,7 +425,7 @@ const ASISimulator: React.FC = () => {
                 <label className="text-sm font-medium text-muted-foreground">{getText('agents')}: {parameters.agentCount}</label>
                 <Slider
                   value={[parameters.agentCount]}
-                  onValueChange={([value]) => setParameters(prev => ({ ...prev, agentCount: value }))}
+                  onValueChange={([value]) => setParameters(prev => ({ ...prev, ...agentCountPatch(prev, value) }))}
                   min={1}
                   max={16}
                   step={1}
@@ -390,26 +442,216 @@ const ASISimulator: React.FC = () => {
                   step={0.1}
                   className="mt-2"
                 />
+                <div className="mt-3 space-y-2 text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{getText('ethicalScore')}</span>
+                    <span className={`font-mono ${ethics.violated ? 'text-destructive' : 'text-resonance'}`}>
+                      {ethics.score.toFixed(3)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {INTERVENTION_LADDER.filter(({ kind }) => ethics.interventions[kind]).map(({ kind }) => (
+                      <Badge key={kind} variant="destructive" className="text-[10px]">
+                        {getText(INTERVENTION_TEXT_KEYS[kind])}
+                        {kind === 'quarantine' && ` (${ethics.quarantinedAgents})`}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="space-y-0.5 font-mono text-muted-foreground">
+                    {events.length === 0 ? (
+                      <p>{getText('noEthicsEvents')}</p>
+                    ) : (
+                      events.slice(-4).reverse().map((event, i) => (
+                        <p key={`${event.time}-${i}`}>
+                          t={event.time.toFixed(1)} · {getText(eventTextKey(event))} · {event.score.toFixed(2)}
+                        </p>
+                      ))
+                    )}
+                  </div>
+                </div>
               </div>
               <div className="flex flex-col gap-2">
                 <Button 
                   onClick={toggleSimulation}
                   className="bg-gradient-resonance hover:shadow-resonance"
                 >
-                  {isRunning ? getText('stop') : getText('start')}
+                  {simulation.isRunning ? getText('stop') : getText('start')}
                 </Button>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={togglePause}
+                    disabled={!simulation.isRunning}
+                    className="flex-1"
+                  >
+                    {simulation.isPaused ? getText('resume') : getText('pause')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={simulation.stepOnce}
+                    disabled={simulation.isRunning && !simulation.isPaused}
+                    className="flex-1"
+                  >
+                    {getText('stepOnce')}
+                  </Button>
+                </div>
                 <Button 
                   variant={is10xAccelerated ? "default" : "outline"}
-                  onClick={() => setIs10xAccelerated(!is10xAccelerated)}
+                  onClick={() => simulation.setSpeed(is10xAccelerated ? 1 : 10)}
                   className={is10xAccelerated ? "bg-gradient-energy text-white" : ""}
                 >
                   {getText('acceleration')} 10x
                 </Button>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">{getText('speed')}: {simulation.speed.toFixed(2)}x</label>
+                  <Slider
+                    value={[Math.log10(simulation.speed)]}
+                    onValueChange={([value]) => simulation.setSpeed(Math.pow(10, value))}
+                    min={Math.log10(MIN_SPEED)}
+                    max={Math.log10(MAX_SPEED)}
+                    step={0.01}
+                    className="mt-2"
+                  />
+                </div>
                 <Button variant="outline" onClick={resetSimulation}>
                   {getText('reset')}
                 </Button>
+                <JobError error={simulation.error} title={getText('simulationError')} />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">{getText('growthRegime')}</label>
+                <Select
+                  value={parameters.regime}
+                  onValueChange={(value) => setParameters(prev => ({ ...prev, regime: value as GrowthRegime }))}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GROWTH_REGIME_IDS.map(regime => (
+                      <SelectItem key={regime} value={regime}>{getText(`${regime}Regime`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(parameters.regime === 'logistic' || parameters.regime === 'gompertz') && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">{getText('carryingCapacity')}: {parameters.carryingCapacity}</label>
+                  <Slider
+                    value={[parameters.carryingCapacity]}
+                    onValueChange={([value]) => setParameters(prev => ({ ...prev, carryingCapacity: value }))}
+                    min={100}
+                    max={20000}
+                    step={100}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+              {parameters.regime === 'compute' && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">{getText('computeBudget')}: {parameters.computeBudget}</label>
+                  <Slider
+                    value={[parameters.computeBudget]}
+                    onValueChange={([value]) => setParameters(prev => ({ ...prev, computeBudget: value }))}
+                    min={10}
+                    max={10000}
+                    step={10}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">{getText('asiTime')}</p>
+                <code className="bg-muted/50 p-2 rounded text-xs block mt-2">
+                  {formulaFor('asiTime').expression} = {Number.isFinite(asiTime) ? `${asiTime.toFixed(1)}s` : '∞'}
+                </code>
               </div>
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mt-6">
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">{getText('noiseModel')}</label>
+                <Select
+                  value={parameters.noiseModel}
+                  onValueChange={(value) => setParameters(prev => ({ ...prev, noiseModel: value as NoiseModel }))}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{getText('deterministic')}</SelectItem>
+                    <SelectItem value="ornstein-uhlenbeck">Ornstein–Uhlenbeck</SelectItem>
+                    <SelectItem value="gbm">{getText('gbm')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {parameters.noiseModel !== 'none' && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">σ ({getText('volatility')}): {parameters.noiseVolatility.toFixed(2)}</label>
+                  <Slider
+                    value={[parameters.noiseVolatility]}
+                    onValueChange={([value]) => setParameters(prev => ({ ...prev, noiseVolatility: value }))}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+              {parameters.noiseModel === 'ornstein-uhlenbeck' && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">θ ({getText('reversion')}): {parameters.noiseReversion.toFixed(2)}</label>
+                  <Slider
+                    value={[parameters.noiseReversion]}
+                    onValueChange={([value]) => setParameters(prev => ({ ...prev, noiseReversion: value }))}
+                    min={0}
+                    max={5}
+                    step={0.05}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+              <div className="md:col-start-4">
+                <label className="text-sm font-medium text-muted-foreground">{getText('seed')}</label>
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    type="number"
+                    value={parameters.seed}
+                    onChange={(event) => {
+                      const seed = Number.parseInt(event.target.value, 10);
+                      if (Number.isFinite(seed)) setParameters(prev => ({ ...prev, seed }));
+                    }}
+                    className="font-mono"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setParameters(prev => ({ ...prev, seed: randomSeed() }))}
+                    title={getText('newSeed')}
+                  >
+                    <Dices className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+            <div className="mt-6">
+              <label className="text-sm font-medium text-muted-foreground">{getText('governors')}</label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                value={parameters.governors}
+                onValueChange={(value) => setParameters(prev => ({ ...prev, governors: value as GovernorId[] }))}
+                className="mt-2 flex-wrap justify-start"
+              >
+                {GOVERNOR_IDS.map(id => (
+                  <ToggleGroupItem key={id} value={id} className="data-[state=on]:border-resonance data-[state=on]:text-resonance">
+                    {getText(GOVERNOR_TEXT_KEYS[id])}
+                    {governor.active.includes(id) && <Shield className="h-3 w-3 ml-1" />}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
           </CardContent>
         </Card>
 
@@ -445,10 +687,11 @@ const ASISimulator: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">{getText('resonance')}</p>
-                  <p className="text-2xl font-bold text-resonance">{metrics.resonancePoints}</p>
+                  <p className="text-2xl font-bold text-resonance">r = {metrics.resonance.toFixed(3)}</p>
                 </div>
                 <Atom className="h-8 w-8 text-resonance" />
               </div>
+              <Progress value={100 * metrics.resonance} className="mt-2" />
             </CardContent>
           </Card>
 
@@ -527,10 +770,10 @@ const ASISimulator: React.FC = () => {
                     className="mt-2"
                   />
                   <div className="text-xs text-muted-foreground mt-1">
-                    {getText('resonance')}: {calculateResonance()} | {getText('asiTime')}: {calculateASITime().toFixed(1)}s
+                    {getText('resonance')}: {FORMULAS.resonanceCoupling.evaluate(parameters).toFixed(3)} | {getText('asiTime')}: {Number.isFinite(asiTime) ? `${asiTime.toFixed(1)}s` : '∞'}
                   </div>
                   <div className="text-xs text-quantum mt-1">
-                    ω_рез = β·α = {parameters.resonanceStrength}·{parameters.alpha.toFixed(2)}
+                    {FORMULAS.resonanceCoupling.expression} = {parameters.resonanceStrength}·{parameters.alpha.toFixed(2)}
                   </div>
                 </div>
 
@@ -558,7 +801,146 @@ const ASISimulator: React.FC = () => {
                     {getText('efficiencyTitle')}: {(parameters.delta * 100).toFixed(0)}%
                   </div>
                   <div className="text-xs text-neural mt-1">
-                    I(t) = I₀ + (δ·Q₀/α)·(e^(α·t) - 1)
+                    {formulaFor('intelligence').expression}
+                  </div>
+                </div>
+
+                {/* Initial Conditions */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <label className="text-sm font-medium text-muted-foreground cursor-help">
+                          {getText('initialIntelligence')}: {parameters.initialIntelligence.toFixed(1)}
+                        </label>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Начальный уровень интеллекта системы | Initial intelligence level of the system</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Slider
+                      value={[parameters.initialIntelligence]}
+                      onValueChange={([value]) => setParameters(prev => ({ ...prev, initialIntelligence: value }))}
+                      min={0.1}
+                      max={10}
+                      step={0.1}
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <label className="text-sm font-medium text-muted-foreground cursor-help">
+                          {getText('initialHypotheses')}: {parameters.initialHypotheses}
+                        </label>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Начальный пул гипотез | Initial hypothesis pool</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Slider
+                      value={[parameters.initialHypotheses]}
+                      onValueChange={([value]) => setParameters(prev => ({ ...prev, initialHypotheses: value }))}
+                      min={10}
+                      max={1000}
+                      step={10}
+                      className="mt-2"
+                    />
+                  </div>
+                </div>
+
+                {/* Growth Model */}
+                <div>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <label className="text-sm font-medium text-muted-foreground cursor-help">
+                        {getText('growthModel')}
+                      </label>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Замкнутая формула или численное интегрирование dI/dt, dQ/dt | Closed form or numerical integration of dI/dt, dQ/dt</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <Select
+                    value={parameters.growthModel === 'numerical' ? parameters.solver : parameters.growthModel}
+                    onValueChange={setSolverMode}
+                  >
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="analytic">{getText('analyticModel')}</SelectItem>
+                      <SelectItem value="euler">Euler</SelectItem>
+                      <SelectItem value="rk4">RK4</SelectItem>
+                      <SelectItem value="rk45">Dormand–Prince RK45</SelectItem>
+                      <SelectItem value="agent-based">{getText('agentBasedModel')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {parameters.growthModel === 'agent-based' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+                      <div>
+                        <label className="text-sm font-medium text-muted-foreground">{getText('exchangeRate')}: {parameters.exchangeRate.toFixed(2)}</label>
+                        <Slider
+                          value={[parameters.exchangeRate]}
+                          onValueChange={([value]) => setParameters(prev => ({ ...prev, exchangeRate: value }))}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-muted-foreground">{getText('coupling')}: {parameters.coupling.toFixed(4)}</label>
+                        <Slider
+                          value={[parameters.coupling]}
+                          onValueChange={([value]) => setParameters(prev => ({ ...prev, coupling: value, couplingMatrix: null }))}
+                          min={0}
+                          max={0.01}
+                          step={0.0001}
+                          className="mt-2"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {parameters.growthModel !== 'analytic' && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
+                      <div>
+                        <label className="text-sm font-medium text-muted-foreground">{getText('saturation')}: {parameters.saturation.toFixed(3)}</label>
+                        <Slider
+                          value={[parameters.saturation]}
+                          onValueChange={([value]) => setParameters(prev => ({ ...prev, saturation: value }))}
+                          min={0}
+                          max={0.1}
+                          step={0.001}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-muted-foreground">{getText('feedback')}: {parameters.feedback.toFixed(2)}</label>
+                        <Slider
+                          value={[parameters.feedback]}
+                          onValueChange={([value]) => setParameters(prev => ({ ...prev, feedback: value }))}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-muted-foreground">{getText('damping')}: {parameters.damping.toFixed(2)}</label>
+                        <Slider
+                          value={[parameters.damping]}
+                          onValueChange={([value]) => setParameters(prev => ({ ...prev, damping: value }))}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          className="mt-2"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <div className="text-xs text-neural mt-1">
+                    dI/dt = İ/(1 + s·I), dQ/dt = Q̇ - d·Q + f·I
                   </div>
                 </div>
 
@@ -576,7 +958,7 @@ const ASISimulator: React.FC = () => {
                   </Tooltip>
                   <Slider
                     value={[parameters.agentCount]}
-                    onValueChange={([value]) => setParameters(prev => ({ ...prev, agentCount: value }))}
+                    onValueChange={([value]) => setParameters(prev => ({ ...prev, ...agentCountPatch(prev, value) }))}
                     min={5}
                     max={30}
                     step={1}
@@ -588,7 +970,7 @@ const ASISimulator: React.FC = () => {
                     </Badge>
                   )}
                   <div className="text-xs text-muted-foreground mt-1">
-                    I_эм = ΣI_i + Σγ_ij·I_i·I_j
+                    {FORMULAS.emergence.expression}
                   </div>
                 </div>
               </CardContent>
@@ -644,8 +1026,8 @@ const ASISimulator: React.FC = () => {
                 <Button
                   onClick={() => {
                     // Start dynamic comparison animation
-                    setIsRunning(true);
-                    setIs10xAccelerated(true);
+                    simulation.setSpeed(10);
+                    simulation.resume();
                   }}
                   variant="outline"
                   className="w-full flex items-center gap-2 bg-gradient-quantum"
@@ -691,7 +1073,7 @@ const ASISimulator: React.FC = () => {
 
         {/* Main Visualization Tabs */}
         <Tabs defaultValue="growth" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 bg-muted/50">
+          <TabsList className="grid w-full grid-cols-6 bg-muted/50">
             <TabsTrigger value="growth" className="data-[state=active]:bg-neural/20">
               <Activity className="h-4 w-4 mr-2" />
               {getText('intelligenceGrowth')}
@@ -708,39 +1090,126 @@ const ASISimulator: React.FC = () => {
               <TrendingUp className="h-4 w-4 mr-2" />
               {getText('complexity')}
             </TabsTrigger>
+            <TabsTrigger value="ethics" className="data-[state=active]:bg-resonance/20">
+              <Shield className="h-4 w-4 mr-2" />
+              {getText('ethics')}
+            </TabsTrigger>
+            <TabsTrigger value="analysis" className="data-[state=active]:bg-warning/20">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              {getText('analysis')}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="growth">
             <IntelligenceGrowthChart 
               simulationTime={simulationTime}
               intelligence={metrics.intelligence}
+              analyticIntelligence={analyticIntelligence}
+              ensemble={ensemble.result}
               parameters={parameters}
               isRunning={isRunning}
             />
+            <div className="mt-6">
+              <EnsemblePanel
+                parameters={parameters}
+                result={ensemble.result}
+                progress={ensemble.progress}
+                isRunning={ensemble.isRunning}
+                error={ensemble.error}
+                onRun={(options) => ensemble.run(job => runJobInWorker('ensemble', parameters, options, job))}
+                onCancel={ensemble.cancel}
+                onClear={ensemble.clear}
+              />
+            </div>
           </TabsContent>
 
           <TabsContent value="resonance">
-            <ResonanceVisualization 
-              resonancePoints={metrics.resonancePoints}
-              parameters={parameters}
-              isRunning={isRunning}
-            />
+            <div className="space-y-6">
+              <PhaseSynchronizationPanel
+                agents={simulation.state.network.agents}
+                parameters={parameters}
+                history={resonanceHistory}
+                lockedCount={metrics.resonancePoints}
+                onChange={(patch) => setParameters(prev => ({ ...prev, ...patch }))}
+              />
+              <ResonanceVisualization 
+                agents={simulation.state.network.agents}
+                dimension={dimension.result?.correlation?.dimension ?? null}
+                parameters={parameters}
+                isRunning={isRunning}
+              />
+              <FractalDimensionPanel
+                parameters={parameters}
+                result={dimension.result}
+                progress={dimension.progress}
+                isRunning={dimension.isRunning}
+                error={dimension.error}
+                onRun={(options) => dimension.run(job => runJobInWorker('dimension', parameters, options, job))}
+                onCancel={dimension.cancel}
+              />
+              <SpectrumPanel parameters={parameters} />
+            </div>
           </TabsContent>
 
           <TabsContent value="network">
-            <AgentNetwork 
-              agentCount={parameters.agentCount}
-              intelligence={metrics.intelligence}
-              isRunning={isRunning}
-            />
+            <div className="space-y-6">
+              <AgentNetwork 
+                network={simulation.state.network}
+                emergentIntelligence={metrics.emergentIntelligence}
+                topology={parameters.topology}
+                onTopologyChange={(topology) => setParameters(prev => ({ ...prev, topology }))}
+                onEdit={(edit) => setParameters(prev => ({ ...prev, ...networkEditPatch(prev, edit) }))}
+                onClearEdits={() => setParameters(prev => ({ ...prev, networkEdits: [] }))}
+                isRunning={isRunning}
+                seed={parameters.seed}
+              />
+              <AgentArchetypePanel
+                populationMix={parameters.populationMix}
+                onPopulationMixChange={(populationMix) => setParameters(prev => ({ ...prev, populationMix }))}
+                agents={simulation.state.network.agents}
+              />
+              <CouplingMatrixEditor
+                parameters={parameters}
+                network={simulation.state.network}
+                onChange={(patch) => setParameters(prev => ({ ...prev, ...patch }))}
+              />
+            </div>
           </TabsContent>
 
           <TabsContent value="complexity">
-            <ComplexityComparison 
-              hybridComplexity={parameters.agentCount * parameters.agentCount}
-              traditionalComplexity={Math.pow(2, parameters.agentCount)}
+            <div className="space-y-6">
+              <ComplexityComparison 
+                hybridComplexity={parameters.agentCount * parameters.agentCount}
+                traditionalComplexity={Math.pow(2, parameters.agentCount)}
+              />
+              <ResonanceLandscapePanel
+                parameters={parameters}
+                onApply={applyPatch}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="ethics">
+            <EthicsDashboard
+              history={ethicsHistory}
+              ethics={ethics}
+              events={events}
+              agents={simulation.state.network.agents}
+              parameters={parameters}
             />
           </TabsContent>
+
+          <TabsContent value="analysis">
+            <div className="space-y-6">
+              <GovernorComparison parameters={parameters} />
+              <RobustnessPanel parameters={parameters} />
+              <SensitivityPanel parameters={parameters} />
+              <SweepPanel
+                parameters={parameters}
+                onApply={applyPatch}
+              />
+            </div>
+          </TabsContent>
         </Tabs>
 
         {/* Mathematical Formulas */}
@@ -754,42 +1223,14 @@ const ASISimulator: React.FC = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h4 className="font-semibold text-neural mb-2">{getText('intelligenceGrowthFormula')}:</h4>
-                  <code className="bg-muted/50 p-2 rounded text-sm block">
-                    I(t) = I₀ + (δQ₀/α)(e^(αt) - 1)
-                  </code>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-quantum mb-2">{getText('resonanceFreq')}:</h4>
-                  <code className="bg-muted/50 p-2 rounded text-sm block">
-                    ω = (1/D) × Σ(qₖ/mₖ)
-                  </code>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-resonance mb-2">{getText('hypothesesGrowth')}:</h4>
-                  <code className="bg-muted/50 p-2 rounded text-sm block">
-                    Q(t) = Q₀ × e^(αt)
-                  </code>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-energy mb-2">{getText('complexityFormula')}:</h4>
-                  <code className="bg-muted/50 p-2 rounded text-sm block">
-                    O(2^n) → O(n²)
-                  </code>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-warning mb-2">{getText('emergence')}:</h4>
-                  <code className="bg-muted/50 p-2 rounded text-sm block">
-                    I_эм = ΣI_i + Σγ_ij·I_i·I_j
-                  </code>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-resonance mb-2">{getText('asiAchievementTime')}:</h4>
-                  <code className="bg-muted/50 p-2 rounded text-sm block">
-                    T = (1/α)·ln((α·(I_ASI-I₀))/(δ·Q₀) + 1)
-                  </code>
-                </div>
+                {FORMULA_CARDS.map(card => (
+                  <div key={card.formula}>
+                    <h4 className={`font-semibold ${card.className} mb-2`}>{getText(card.titleKey)}:</h4>
+                    <code className="bg-muted/50 p-2 rounded text-sm block">
+                      {formulaFor(card.formula).expression}
+                    </code>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
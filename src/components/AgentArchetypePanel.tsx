@@ -0,0 +1,103 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Layers } from 'lucide-react';
+import { ARCHETYPE_LABELS } from '@/lib/parameter-labels';
+import { ARCHETYPE_COLORS } from '@/lib/color-scale';
+import { ARCHETYPES, ARCHETYPE_IDS, Agent, PopulationMix } from '@/engine';
+
+interface AgentArchetypePanelProps {
+  populationMix: PopulationMix;
+  onPopulationMixChange: (mix: PopulationMix) => void;
+  agents: Agent[];
+}
+
+const AgentArchetypePanel: React.FC<AgentArchetypePanelProps> = ({ populationMix, onPopulationMixChange, agents }) => {
+  const totalWeight = ARCHETYPE_IDS.reduce((sum, id) => sum + populationMix[id], 0);
+  const totalIntelligence = agents.reduce((sum, agent) => sum + agent.intelligence, 0);
+
+  const stats = ARCHETYPE_IDS.map(id => {
+    const members = agents.filter(agent => agent.archetype === id);
+    const intelligence = members.reduce((sum, agent) => sum + agent.intelligence, 0);
+    const hypotheses = members.reduce((sum, agent) => sum + agent.hypotheses, 0);
+    return {
+      id,
+      count: members.length,
+      meanIntelligence: members.length > 0 ? intelligence / members.length : null,
+      meanHypotheses: members.length > 0 ? hypotheses / members.length : null,
+      share: totalIntelligence > 0 ? intelligence / totalIntelligence : 0
+    };
+  });
+
+  return (
+    <Card className="border-quantum bg-gradient-to-br from-card to-quantum/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-quantum" />
+          Архетипы агентов
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <h4 className="text-sm font-semibold text-muted-foreground">Состав популяции</h4>
+            {ARCHETYPE_IDS.map(id => (
+              <div key={id}>
+                <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: `rgb(${ARCHETYPE_COLORS[id].join(', ')})` }} />
+                  {ARCHETYPE_LABELS[id]}: {totalWeight > 0 ? `${((100 * populationMix[id]) / totalWeight).toFixed(0)}%` : '—'}
+                </label>
+                <Slider
+                  value={[populationMix[id]]}
+                  onValueChange={([value]) => onPopulationMixChange({ ...populationMix, [id]: value })}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  className="mt-2"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-muted-foreground">Статистика по типам</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-left">
+                  <th className="font-medium pb-1">Тип</th>
+                  <th className="font-medium pb-1 text-right">N</th>
+                  <th className="font-medium pb-1 text-right">⟨I_i⟩</th>
+                  <th className="font-medium pb-1 text-right">⟨Q_i⟩</th>
+                  <th className="font-medium pb-1 text-right">Доля ΣI</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {stats.map(({ id, count, meanIntelligence, meanHypotheses, share }) => (
+                  <tr key={id} className={count === 0 ? 'text-muted-foreground' : undefined}>
+                    <td className="font-sans" style={{ color: `rgb(${ARCHETYPE_COLORS[id].join(', ')})` }}>{ARCHETYPE_LABELS[id]}</td>
+                    <td className="text-right">{count}</td>
+                    <td className="text-right">{meanIntelligence === null ? '—' : meanIntelligence.toPrecision(3)}</td>
+                    <td className="text-right">{meanHypotheses === null ? '—' : meanHypotheses.toPrecision(3)}</td>
+                    <td className="text-right">{(100 * share).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-xs text-muted-foreground space-y-1 pt-2">
+              {ARCHETYPE_IDS.map(id => {
+                const { alpha, delta, sharing, receptivity, ethicsBias } = ARCHETYPES[id];
+                return (
+                  <p key={id}>
+                    <strong>{ARCHETYPE_LABELS[id]}:</strong> α×{alpha}, δ×{delta}, отдача σ = {sharing}, восприимчивость ρ = {receptivity}, этика {ethicsBias >= 0 ? '+' : ''}{ethicsBias}
+                  </p>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AgentArchetypePanel;
@@ -1,70 +1,256 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Network, Users } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Network, Trash2, Users } from 'lucide-react';
+import GraphMetricsPanel from './GraphMetricsPanel';
+import { ARCHETYPE_LABELS, NODE_METRIC_LABELS, TOPOLOGY_LABELS } from '@/lib/parameter-labels';
+import { ARCHETYPE_COLORS, HEAT_GRADIENT, heatRgb } from '@/lib/color-scale';
+import {
+  ARCHETYPE_IDS,
+  FORMULAS,
+  GraphMetrics,
+  NODE_METRICS,
+  NetworkEdit,
+  NetworkState,
+  NodeMetric,
+  Point,
+  Random,
+  TOPOLOGIES,
+  TOPOLOGY_KINDS,
+  TopologyKind,
+  TopologySpec,
+  deriveSeed,
+  editedAgentChange,
+  graphMetrics,
+  layoutNetwork,
+  networkActivity
+} from '@/engine';
 
 interface AgentNetworkProps {
-  agentCount: number;
-  intelligence: number;
+  network: NetworkState;
+  emergentIntelligence: number;
+  topology: TopologySpec;
+  onTopologyChange: (topology: TopologySpec) => void;
+  onEdit: (edit: NetworkEdit) => void;
+  onClearEdits: () => void;
   isRunning: boolean;
+  seed: number;
 }
 
-interface Agent {
-  x: number;
-  y: number;
-  intelligence: number;
-  activity: number;
-  connections: number[];
-  id: number;
-  phase: number;
+interface GeneratorControl {
+  field: keyof Omit<TopologySpec, 'kind'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
 }
 
+// Generator parameters shown for each topology
+const GENERATOR_CONTROLS: Record<TopologyKind, GeneratorControl[]> = {
+  ring: [{ field: 'neighbours', label: 'Соседей с каждой стороны (k)', min: 1, max: 6, step: 1 }],
+  full: [],
+  'erdos-renyi': [{ field: 'edgeProbability', label: 'Вероятность связи (p)', min: 0.05, max: 1, step: 0.05 }],
+  'watts-strogatz': [
+    { field: 'neighbours', label: 'Соседей с каждой стороны (k)', min: 1, max: 6, step: 1 },
+    { field: 'rewiring', label: 'Вероятность перестройки (β)', min: 0, max: 1, step: 0.05 }
+  ],
+  'barabasi-albert': [{ field: 'attachment', label: 'Связей на нового агента (m)', min: 1, max: 5, step: 1 }],
+  grid: [],
+  tree: [{ field: 'branching', label: 'Ветвление (b)', min: 1, max: 5, step: 1 }]
+};
+
+type NodeEncoding = NodeMetric | 'none';
+// Archetypes are categorical, so they can colour nodes but not size them
+type ColourEncoding = NodeEncoding | 'archetype';
+
+const CANVAS_BOUNDS = { width: 800, height: 400, padding: 40 };
+
+// Per-agent values of an encoding, scaled to [0, 1] by the largest one
+const encodingValues = (encoding: NodeEncoding, network: NetworkState, metrics: GraphMetrics): number[] => {
+  const n = network.agents.length;
+  let values: number[];
+  switch (encoding) {
+    case 'none':
+      return new Array<number>(n).fill(0);
+    // Agent intelligences span many orders of magnitude, so they are compared on log10
+    case 'intelligence':
+      values = network.agents.map(agent => Math.log10(1 + Math.max(0, agent.intelligence)));
+      break;
+    case 'component':
+      values = metrics.component.map(c => metrics.componentSizes[c]);
+      break;
+    default:
+      values = metrics[encoding];
+  }
+  const max = Math.max(...values, Number.MIN_VALUE);
+  return values.map(value => value / max);
+};
+
+const nodeSize = (value: number) => 8 + 12 * value;
+
+// Extra slack around a node that still counts as hitting it
+const HIT_MARGIN = 4;
+
+const clampToCanvas = ({ x, y }: Point): Point => ({
+  x: Math.min(CANVAS_BOUNDS.width, Math.max(0, x)),
+  y: Math.min(CANVAS_BOUNDS.height, Math.max(0, y))
+});
+
 const AgentNetwork: React.FC<AgentNetworkProps> = ({
-  agentCount,
-  intelligence,
-  isRunning
+  network,
+  emergentIntelligence,
+  topology,
+  onTopologyChange,
+  onEdit,
+  onClearEdits,
+  isRunning,
+  seed
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [colourBy, setColourBy] = useState<ColourEncoding>('archetype');
+  const [sizeBy, setSizeBy] = useState<NodeEncoding>('intelligence');
+  // Where nodes stood when the graph was last edited, keyed by agent index, so an edit does not reshuffle the picture
+  const [frozen, setFrozen] = useState<Record<number, Point>>({});
+  const [dragged, setDragged] = useState<{ agent: number; point: Point } | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
   const animationRef = useRef<number>();
-  const agentsRef = useRef<Agent[]>([]);
   const timeRef = useRef(0);
+  const agentCount = network.agents.length;
+  const layout = TOPOLOGIES[network.topology.kind].layout;
+  // Agents are replaced every step but the graph rarely changes; relayout only when it does
+  const structure = network.agents.map(agent => agent.connections.join(',')).join('|');
+
+  const connections = useMemo(
+    () => structure.split('|').map(list => (list ? list.split(',').map(Number) : [])),
+    [structure]
+  );
+  const metrics = useMemo(() => graphMetrics(connections), [connections]);
 
+  const positions = useMemo<Point[]>(
+    () => layoutNetwork(connections, layout, CANVAS_BOUNDS, new Random(deriveSeed(seed, 'agents'))),
+    [connections, layout, seed]
+  );
+
+  // Hand placements come with the agents, which are replaced every step; rebuild them only when they move
+  const handPlacedKey = network.agents.map(({ position }) => (position ? `${position.x},${position.y}` : '')).join('|');
+  const handPlaced = useMemo(
+    () =>
+      handPlacedKey.split('|').map(entry => {
+        if (!entry) return null;
+        const [x, y] = entry.split(',').map(Number);
+        return { x, y };
+      }),
+    [handPlacedKey]
+  );
+
+  const placed = useMemo<Point[]>(
+    () =>
+      positions.map((position, i) =>
+        dragged?.agent === i ? dragged.point : handPlaced[i] ?? frozen[i] ?? position
+      ),
+    [positions, handPlaced, frozen, dragged]
+  );
+  const sizes = useMemo(() => encodingValues(sizeBy, network, metrics).map(nodeSize), [sizeBy, network, metrics]);
+  const selectedAgent = selected !== null ? network.agents[selected] : undefined;
+
+  // Clearing the edits or resizing the generated graph lays the network out afresh
+  const editCount = network.edits.length;
+  const generatedCount = network.agentCount - editedAgentChange(network.edits);
   useEffect(() => {
-    // Generate agents in a circular network topology
-    const newAgents: Agent[] = [];
-    const centerX = 400;
-    const centerY = 200;
-    const radius = 150;
-
-    for (let i = 0; i < agentCount; i++) {
-      const angle = (i / agentCount) * Math.PI * 2;
-      const x = centerX + Math.cos(angle) * radius;
-      const y = centerY + Math.sin(angle) * radius;
-      
-      // Generate connections (each agent connects to nearby agents)
-      const connections: number[] = [];
-      for (let j = 0; j < agentCount; j++) {
-        if (i !== j) {
-          const distance = Math.abs(i - j);
-          const wrappedDistance = Math.min(distance, agentCount - distance);
-          if (wrappedDistance <= 2) { // Connect to 2 nearest neighbors on each side
-            connections.push(j);
-          }
-        }
-      }
+    if (editCount === 0) setFrozen({});
+  }, [editCount]);
+  useEffect(() => {
+    setFrozen({});
+  }, [generatedCount]);
 
-      newAgents.push({
-        x,
-        y,
-        intelligence: 1.0 + Math.random() * 0.5,
-        activity: Math.random(),
-        connections,
-        id: i,
-        phase: Math.random() * Math.PI * 2
-      });
+  // Edits change the layout's input; freezing every node first keeps the picture still
+  const freeze = () => setFrozen(Object.fromEntries(placed.map(({ x, y }, i) => [i, { x, y }])));
+
+  const toggleEdge = (from: number, to: number) => {
+    freeze();
+    onEdit({ kind: 'toggle-edge', from, to });
+  };
+
+  const removeAgent = (agent: number) => {
+    const remaining = placed.filter((_, i) => i !== agent).map(({ x, y }) => ({ x, y }));
+    setFrozen({ ...remaining });
+    setSelected(null);
+    onEdit({ kind: 'remove-agent', agent });
+  };
+
+  const addAgent = (position: Point) => {
+    freeze();
+    onEdit({ kind: 'add-agent', connections: selected !== null ? [selected] : [], position });
+    setSelected(agentCount);
+  };
+
+  const canvasPoint = (event: React.MouseEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return clampToCanvas({
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_BOUNDS.width,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_BOUNDS.height
+    });
+  };
+
+  // Topmost (last drawn) agent under the point
+  const agentAt = ({ x, y }: Point) => {
+    for (let i = placed.length - 1; i >= 0; i--) {
+      if (Math.hypot(placed[i].x - x, placed[i].y - y) <= sizes[i] + HIT_MARGIN) return i;
     }
+    return null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const hit = agentAt(canvasPoint(event));
+    if (hit === null) {
+      setSelected(null);
+      return;
+    }
+    if (event.shiftKey && selected !== null && selected !== hit) {
+      toggleEdge(selected, hit);
+      return;
+    }
+    setSelected(hit);
+    setDragged({ agent: hit, point: placed[hit] });
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragged === null) return;
+    setDragged({ agent: dragged.agent, point: canvasPoint(event) });
+  };
+
+  // A drag is recorded as one edit when released; a plain click that did not move the agent records nothing
+  const handlePointerUp = () => {
+    if (dragged === null) return;
+    const { agent, point } = dragged;
+    const start = handPlaced[agent] ?? frozen[agent] ?? positions[agent];
+    setDragged(null);
+    if (point.x === start.x && point.y === start.y) return;
+    setFrozen(prev => ({ ...prev, [agent]: point }));
+    onEdit({ kind: 'move-agent', agent, position: point });
+  };
 
-    agentsRef.current = newAgents;
-  }, [agentCount]);
+  const handleDoubleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = canvasPoint(event);
+    if (agentAt(point) === null) addAgent(point);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    // The network keeps at least one agent, as with the remove button
+    if ((event.key === 'Delete' || event.key === 'Backspace') && selected !== null && agentCount > 1) {
+      event.preventDefault();
+      removeAgent(selected);
+    }
+  };
+
+  const changeTopology = (next: TopologySpec) => {
+    setFrozen({});
+    setSelected(null);
+    onTopologyChange(next);
+  };
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -73,22 +259,18 @@ const AgentNetwork: React.FC<AgentNetworkProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const animate = () => {
-      if (!isRunning) return;
-
-      timeRef.current += 0.03;
-      
-      // Update agent intelligence based on global intelligence
-      agentsRef.current.forEach(agent => {
-        agent.intelligence = 1.0 + (intelligence - 1.0) * (0.8 + Math.random() * 0.4);
-        agent.activity = 0.5 + 0.5 * Math.sin(timeRef.current * 2 + agent.phase);
-      });
-
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const colours = colourBy === 'archetype'
+      ? network.agents.map(agent => ARCHETYPE_COLORS[agent.archetype])
+      : encodingValues(colourBy, network, metrics).map(heatRgb);
 
+    const draw = (animated: boolean) => {
+      const { agents } = network;
       const width = canvas.width;
       const height = canvas.height;
+      const maxHypotheses = Math.max(...agents.map(agent => agent.hypotheses), Number.MIN_VALUE);
+      const activity = animated ? networkActivity(network) : agents.map(agent => agent.hypotheses / maxHypotheses);
+
+      ctx.clearRect(0, 0, width, height);
 
       // Draw background network field
       const networkGradient = ctx.createRadialGradient(width/2, height/2, 0, width/2, height/2, Math.max(width, height)/2);
@@ -97,147 +279,122 @@ const AgentNetwork: React.FC<AgentNetworkProps> = ({
       ctx.fillStyle = networkGradient;
       ctx.fillRect(0, 0, width, height);
 
-      // Draw connections between agents
-      agentsRef.current.forEach((agent, i) => {
+      // Draw connections; packets flow from the richer hypothesis pool to the poorer one
+      agents.forEach((agent, i) => {
+        const from = placed[i];
         agent.connections.forEach(connectionId => {
           if (connectionId < i) return; // Draw each connection only once
-          
-          const connectedAgent = agentsRef.current[connectionId];
-          if (!connectedAgent) return;
-
-          const avgActivity = (agent.activity + connectedAgent.activity) / 2;
-          const connectionStrength = avgActivity * Math.min(agent.intelligence, connectedAgent.intelligence) / 10;
-          
-          // Animated connection
-          const pulsePhase = Math.sin(timeRef.current * 4 + i * 0.5);
-          const alpha = connectionStrength * (0.4 + 0.3 * pulsePhase);
-          
+
+          const connected = agents[connectionId];
+          const to = placed[connectionId];
+          if (!connected || !to) return;
+
+          const flow = Math.abs(agent.hypotheses - connected.hypotheses) / maxHypotheses;
+          const avgActivity = (activity[i] + activity[connectionId]) / 2;
+          const alpha = 0.15 + 0.5 * avgActivity;
+
           ctx.beginPath();
-          ctx.moveTo(agent.x, agent.y);
-          ctx.lineTo(connectedAgent.x, connectedAgent.y);
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
           ctx.strokeStyle = `rgba(200, 162, 255, ${alpha})`;
-          ctx.lineWidth = 1 + connectionStrength * 3;
+          ctx.lineWidth = 1 + flow * 3;
           ctx.stroke();
 
-          // Draw data packets traveling along connections
-          if (connectionStrength > 0.3) {
+          if (animated && flow > 0.05) {
+            const [source, target] = agent.hypotheses >= connected.hypotheses ? [from, to] : [to, from];
             const packetPos = (timeRef.current * 0.8 + i * 0.3) % 1;
-            const packetX = agent.x + (connectedAgent.x - agent.x) * packetPos;
-            const packetY = agent.y + (connectedAgent.y - agent.y) * packetPos;
-            
-            ctx.fillStyle = `rgba(255, 255, 150, ${alpha * 2})`;
+            ctx.fillStyle = `rgba(255, 255, 150, ${Math.min(1, 0.3 + flow)})`;
             ctx.beginPath();
-            ctx.arc(packetX, packetY, 3, 0, Math.PI * 2);
+            ctx.arc(source.x + (target.x - source.x) * packetPos, source.y + (target.y - source.y) * packetPos, 3, 0, Math.PI * 2);
             ctx.fill();
           }
         });
       });
 
       // Draw agents
-      agentsRef.current.forEach((agent, i) => {
-        const size = 8 + agent.intelligence * 3;
-        const brightness = agent.activity;
-        
-        // Agent core
-        const agentGradient = ctx.createRadialGradient(agent.x, agent.y, 0, agent.x, agent.y, size);
-        agentGradient.addColorStop(0, `rgba(200, 162, 255, ${brightness})`);
-        agentGradient.addColorStop(0.6, `rgba(142, 220, 142, ${brightness * 0.7})`);
-        agentGradient.addColorStop(1, 'rgba(200, 162, 255, 0)');
-        
+      agents.forEach((agent, i) => {
+        const { x, y } = placed[i];
+        const size = sizes[i];
+        const brightness = 0.3 + 0.7 * activity[i];
+
+        const agentGradient = ctx.createRadialGradient(x, y, 0, x, y, size);
+        if (colourBy === 'none') {
+          agentGradient.addColorStop(0, `rgba(200, 162, 255, ${brightness})`);
+          agentGradient.addColorStop(0.6, `rgba(142, 220, 142, ${brightness * 0.7})`);
+          agentGradient.addColorStop(1, 'rgba(200, 162, 255, 0)');
+        } else {
+          const [r, g, b] = colours[i];
+          agentGradient.addColorStop(0, `rgba(${r}, ${g}, ${b}, 1)`);
+          agentGradient.addColorStop(0.6, `rgba(${r}, ${g}, ${b}, ${0.4 + 0.6 * brightness})`);
+          agentGradient.addColorStop(1, `rgba(${r}, ${g}, ${b}, 0)`);
+        }
+
         ctx.fillStyle = agentGradient;
         ctx.beginPath();
-        ctx.arc(agent.x, agent.y, size, 0, Math.PI * 2);
+        ctx.arc(x, y, size, 0, Math.PI * 2);
         ctx.fill();
 
-        // Intelligence indicator ring
-        if (agent.intelligence > 2) {
+        // Fast learners get an indicator ring
+        if (agent.learningRate > 1) {
           ctx.strokeStyle = `rgba(255, 255, 100, ${brightness * 0.8})`;
           ctx.lineWidth = 2;
           ctx.beginPath();
-          ctx.arc(agent.x, agent.y, size + 5, 0, Math.PI * 2);
+          ctx.arc(x, y, size + 5, 0, Math.PI * 2);
           ctx.stroke();
         }
 
-        // Agent ID
+        if (i === selected) {
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.95)';
+          ctx.lineWidth = 2;
+          ctx.setLineDash([4, 3]);
+          ctx.beginPath();
+          ctx.arc(x, y, size + 9, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
+
         ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
         ctx.font = '10px monospace';
         ctx.textAlign = 'center';
-        ctx.fillText(i.toString(), agent.x, agent.y + 3);
+        ctx.fillText(i.toString(), x, y + 3);
 
         // Activity pulses
-        if (brightness > 0.7) {
+        if (animated && activity[i] > 0.7) {
           const pulseRadius = size + 10 + (timeRef.current * 30) % 20;
           const pulseAlpha = Math.max(0, 1 - (pulseRadius - size - 10) / 20) * brightness * 0.3;
-          
+
           ctx.strokeStyle = `rgba(200, 162, 255, ${pulseAlpha})`;
           ctx.lineWidth = 1;
           ctx.beginPath();
-          ctx.arc(agent.x, agent.y, pulseRadius, 0, Math.PI * 2);
+          ctx.arc(x, y, pulseRadius, 0, Math.PI * 2);
           ctx.stroke();
         }
       });
 
       // Draw network statistics
+      const totalConnections = agents.reduce((sum, agent) => sum + agent.connections.length, 0) / 2;
+      const individualSum = agents.reduce((sum, agent) => sum + agent.intelligence, 0);
+
       ctx.fillStyle = 'rgba(220, 220, 220, 0.9)';
       ctx.font = '14px monospace';
       ctx.textAlign = 'left';
-      
-      const totalConnections = agentsRef.current.reduce((sum, agent) => sum + agent.connections.length, 0) / 2;
-      const avgIntelligence = agentsRef.current.reduce((sum, agent) => sum + agent.intelligence, 0) / agentsRef.current.length;
-      const emergentFactor = avgIntelligence * (1 + totalConnections / (agentCount * agentCount));
-      
-      ctx.fillText(`Агентов: ${agentCount}`, 20, 30);
+      ctx.fillText(`Агентов: ${agents.length}`, 20, 30);
       ctx.fillText(`Связей: ${totalConnections}`, 20, 50);
-      ctx.fillText(`Средний IQ: ${avgIntelligence.toFixed(2)}x`, 20, 70);
-      ctx.fillText(`Эмерджентность: ${emergentFactor.toFixed(2)}x`, 20, 90);
-      ctx.fillText(`I_total = ΣI_i + Σγ_ij·I_i·I_j`, 20, 110);
+      ctx.fillText(`ΣI_i: ${individualSum.toPrecision(4)}`, 20, 70);
+      ctx.fillText(`I_эм: ${emergentIntelligence.toPrecision(4)}`, 20, 90);
+      ctx.fillText(`Эмерджентность: ${(emergentIntelligence / Math.max(individualSum, Number.MIN_VALUE)).toFixed(3)}x`, 20, 110);
+    };
 
+    const animate = () => {
+      timeRef.current += 0.03;
+      draw(true);
       animationRef.current = requestAnimationFrame(animate);
     };
 
     if (isRunning) {
       animationRef.current = requestAnimationFrame(animate);
     } else {
-      // Draw static state
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      // Static connections
-      agentsRef.current.forEach((agent, i) => {
-        agent.connections.forEach(connectionId => {
-          if (connectionId < i) return;
-          
-          const connectedAgent = agentsRef.current[connectionId];
-          if (!connectedAgent) return;
-
-          ctx.beginPath();
-          ctx.moveTo(agent.x, agent.y);
-          ctx.lineTo(connectedAgent.x, connectedAgent.y);
-          ctx.strokeStyle = 'rgba(200, 162, 255, 0.3)';
-          ctx.lineWidth = 1;
-          ctx.stroke();
-        });
-      });
-
-      // Static agents
-      agentsRef.current.forEach((agent, i) => {
-        ctx.fillStyle = 'rgba(200, 162, 255, 0.6)';
-        ctx.beginPath();
-        ctx.arc(agent.x, agent.y, 8, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
-        ctx.font = '10px monospace';
-        ctx.textAlign = 'center';
-        ctx.fillText(i.toString(), agent.x, agent.y + 3);
-      });
-
-      // Static stats
-      ctx.fillStyle = 'rgba(220, 220, 220, 0.9)';
-      ctx.font = '14px monospace';
-      ctx.textAlign = 'left';
-      const totalConnections = agentsRef.current.reduce((sum, agent) => sum + agent.connections.length, 0) / 2;
-      ctx.fillText(`Агентов: ${agentCount}`, 20, 30);
-      ctx.fillText(`Связей: ${totalConnections}`, 20, 50);
+      draw(false);
     }
 
     return () => {
@@ -245,7 +402,7 @@ const AgentNetwork: React.FC<AgentNetworkProps> = ({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isRunning, agentCount, intelligence]);
+  }, [isRunning, placed, sizes, selected, network, emergentIntelligence, metrics, colourBy]);
 
   return (
     <Card className="border-quantum bg-gradient-to-br from-card to-quantum/5">
@@ -259,18 +416,136 @@ const AgentNetwork: React.FC<AgentNetworkProps> = ({
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <canvas
-          ref={canvasRef}
-          width={800}
-          height={400}
-          className="w-full h-auto border border-border rounded-lg bg-background/50"
-        />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Топология</label>
+            <Select
+              value={topology.kind}
+              onValueChange={(value) => changeTopology({ ...topology, kind: value as TopologyKind })}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TOPOLOGY_KINDS.map(kind => (
+                  <SelectItem key={kind} value={kind}>{TOPOLOGY_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {GENERATOR_CONTROLS[topology.kind].map(({ field, label, min, max, step }) => (
+            <div key={field}>
+              <label className="text-sm font-medium text-muted-foreground">{label}: {topology[field]}</label>
+              <Slider
+                value={[topology[field]]}
+                onValueChange={([value]) => changeTopology({ ...topology, [field]: value })}
+                min={min}
+                max={max}
+                step={step}
+                className="mt-2"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+          {([
+            ['Цвет узлов', colourBy, (next: string) => setColourBy(next as ColourEncoding), true],
+            ['Размер узлов', sizeBy, (next: string) => setSizeBy(next as NodeEncoding), false]
+          ] as const).map(([label, value, onChange, categorical]) => (
+            <div key={label}>
+              <label className="text-sm font-medium text-muted-foreground">{label}</label>
+              <Select value={value} onValueChange={onChange}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Без кодирования</SelectItem>
+                  {categorical && <SelectItem value="archetype">Архетип</SelectItem>}
+                  {NODE_METRICS.map(metric => (
+                    <SelectItem key={metric} value={metric}>{NODE_METRIC_LABELS[metric]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3">
+            <canvas
+              ref={canvasRef}
+              width={800}
+              height={400}
+              tabIndex={0}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onDoubleClick={handleDoubleClick}
+              onKeyDown={handleKeyDown}
+              className="w-full h-auto border border-border rounded-lg bg-background/50 cursor-pointer focus:outline-none focus:ring-1 focus:ring-quantum touch-none"
+            />
+            {colourBy === 'archetype' && (
+              <div className="mt-2 flex flex-wrap gap-3 text-xs text-muted-foreground">
+                {ARCHETYPE_IDS.map(id => (
+                  <span key={id} className="flex items-center gap-1">
+                    <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: `rgb(${ARCHETYPE_COLORS[id].join(', ')})` }} />
+                    {ARCHETYPE_LABELS[id]}
+                  </span>
+                ))}
+              </div>
+            )}
+            {colourBy !== 'none' && colourBy !== 'archetype' && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                <span>0</span>
+                <div className="h-2 flex-1 rounded" style={{ background: HEAT_GRADIENT }} />
+                <span>max {NODE_METRIC_LABELS[colourBy]}</span>
+              </div>
+            )}
+          </div>
+          <div className="space-y-4">
+            {selectedAgent && selected !== null ? (
+              <div className="rounded-lg border border-quantum/50 p-3 text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">Агент #{selected}</h4>
+                  <Button variant="ghost" size="sm" onClick={() => removeAgent(selected)} disabled={agentCount <= 1}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {([
+                  ['Архетип', ARCHETYPE_LABELS[selectedAgent.archetype]],
+                  ['I_i', selectedAgent.intelligence.toPrecision(4)],
+                  ['Q_i', selectedAgent.hypotheses.toPrecision(4)],
+                  ['λ_i', selectedAgent.learningRate.toFixed(3)],
+                  ['Степень', selectedAgent.connections.length.toString()],
+                  ['Кластеризация', metrics.clustering[selected]?.toFixed(3) ?? '—'],
+                  ['Посредничество', metrics.betweenness[selected]?.toFixed(3) ?? '—']
+                ] as const).map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">{label}</span>
+                    <span className="font-mono">{value}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Соседи: {selectedAgent.connections.length > 0 ? [...selectedAgent.connections].sort((a, b) => a - b).map(j => `#${j}`).join(', ') : 'нет'}
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Выберите агента на холсте, чтобы увидеть его состояние</p>
+            )}
+            {editCount > 0 && (
+              <Button variant="outline" size="sm" onClick={onClearEdits} className="w-full">
+                Сбросить ручные правки ({editCount})
+              </Button>
+            )}
+            <GraphMetricsPanel metrics={metrics} />
+          </div>
+        </div>
         <div className="mt-4 text-sm text-muted-foreground space-y-1">
-          <p>🟣 <strong>Агенты:</strong> Независимые разумные сущности с собственной архитектурой</p>
-          <p>🔗 <strong>Attention-связи:</strong> Обмен гипотезами между агентами</p>
+          <p>🟣 <strong>Агенты:</strong> собственный интеллект I_i, пул гипотез Q_i, скорость обучения λ_i и архетип, задающий α, δ, обмен гипотезами и этическую позицию</p>
+          <p>🔗 <strong>Связи:</strong> агенты перенимают гипотезы у более информированных соседей</p>
+          <p>🖱 <strong>Редактирование:</strong> перетаскивание — переместить агента, Shift+клик — добавить или убрать связь с выбранным, двойной клик по пустому месту — новый агент (связан с выбранным), Delete — удалить выбранного. Правки сохраняются при смене числа агентов и топологии</p>
           <p className="text-quantum">
             <Users className="inline h-4 w-4 mr-1" />
-            Эмерджентность: I_total &gt; Σ I_individual через взаимодействие
+            Эмерджентность: {FORMULAS.emergence.expression}
           </p>
         </div>
       </CardContent>
@@ -278,4 +553,4 @@ const AgentNetwork: React.FC<AgentNetworkProps> = ({
   );
 };
 
-export default AgentNetwork;
\ No newline at end of file
+export default AgentNetwork;
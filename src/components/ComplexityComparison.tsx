@@ -1,6 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp, Zap, Clock, CheckCircle } from 'lucide-react';
+import { FORMULAS } from '@/engine';
 
 interface ComplexityComparisonProps {
   hybridComplexity: number;
@@ -244,7 +245,7 @@ const ComplexityComparison: React.FC<ComplexityComparisonProps> = ({
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-resonance">✅</span>
-                  <span>Экспоненциальный рост интеллекта: I(t) = I₀ + (δQ₀/α)(e^(αt) - 1)</span>
+                  <span>Экспоненциальный рост интеллекта: {FORMULAS.intelligence.expression}</span>
                 </li>
               </ul>
             </div>
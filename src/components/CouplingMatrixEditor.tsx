@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Grid3x3 } from 'lucide-react';
+import { COUPLING_PRESET_LABELS } from '@/lib/parameter-labels';
+import { heatColor } from '@/lib/color-scale';
+import {
+  COUPLING_PRESET_IDS,
+  CouplingPreset,
+  NetworkState,
+  SimulationParameters
+} from '@/engine';
+
+interface CouplingMatrixEditorProps {
+  parameters: SimulationParameters;
+  network: NetworkState;
+  onChange: (patch: Partial<SimulationParameters>) => void;
+}
+
+const SIZE = 400;
+const MAX_COUPLING = 0.01;
+
+const CouplingMatrixEditor: React.FC<CouplingMatrixEditorProps> = ({ parameters, network, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [brush, setBrush] = useState(parameters.coupling);
+  const [hover, setHover] = useState<{ row: number; col: number } | null>(null);
+  const { coupling, agents } = network;
+  const n = agents.length;
+  const scaleMax = Math.max(...coupling.flat(), Number.MIN_VALUE);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || n === 0) return;
+
+    const cell = SIZE / n;
+    ctx.clearRect(0, 0, SIZE, SIZE);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        ctx.fillStyle = i === j ? 'rgba(100, 100, 100, 0.3)' : heatColor(coupling[i][j] / scaleMax);
+        ctx.fillRect(j * cell, i * cell, cell, cell);
+        // Only connected pairs enter the emergence sum; dim the rest
+        if (i !== j && !agents[i].connections.includes(j)) {
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+          ctx.fillRect(j * cell, i * cell, cell, cell);
+        }
+      }
+    }
+
+    if (hover) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(hover.col * cell, hover.row * cell, cell, cell);
+      ctx.strokeRect(hover.row * cell, hover.col * cell, cell, cell);
+    }
+  }, [coupling, agents, n, scaleMax, hover]);
+
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((event.clientX - rect.left) / rect.width) * n);
+    const row = Math.floor(((event.clientY - rect.top) / rect.height) * n);
+    return row >= 0 && row < n && col >= 0 && col < n ? { row, col } : null;
+  };
+
+  // Painting edits a copy of the current matrix, keeping it symmetric
+  const paint = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const target = cellAt(event);
+    if (!target || target.row === target.col) return;
+    const matrix = coupling.map(row => [...row]);
+    matrix[target.row][target.col] = matrix[target.col][target.row] = brush;
+    onChange({ couplingMatrix: matrix });
+  };
+
+  const hovered = hover && hover.row !== hover.col ? hover : null;
+
+  return (
+    <Card className="border-quantum bg-gradient-to-br from-card to-quantum/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-quantum" />
+          Матрица связности γ_ij
+          <div className="ml-auto text-sm text-muted-foreground">
+            {parameters.couplingMatrix ? 'изменена вручную' : COUPLING_PRESET_LABELS[parameters.couplingPreset]}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Шаблон</label>
+              <Select
+                value={parameters.couplingPreset}
+                onValueChange={(value) => onChange({ couplingPreset: value as CouplingPreset, couplingMatrix: null })}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUPLING_PRESET_IDS.map(id => (
+                    <SelectItem key={id} value={id}>{COUPLING_PRESET_LABELS[id]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Масштаб γ: {parameters.coupling.toFixed(4)}</label>
+              <Slider
+                value={[parameters.coupling]}
+                onValueChange={([value]) => onChange({ coupling: value, couplingMatrix: null })}
+                min={0}
+                max={MAX_COUPLING}
+                step={0.0001}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Кисть: {brush.toFixed(4)}</label>
+              <Slider
+                value={[brush]}
+                onValueChange={([value]) => setBrush(value)}
+                min={0}
+                max={2 * MAX_COUPLING}
+                step={0.0001}
+                className="mt-2"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => onChange({ couplingMatrix: null })}
+              disabled={!parameters.couplingMatrix}
+              className="w-full"
+            >
+              Вернуть шаблон
+            </Button>
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>🖌 <strong>Клик по ячейке:</strong> задать γ_ij = γ_ji значением кисти</p>
+              <p>⬛ <strong>Затемнённые ячейки:</strong> пары без связи, в сумму эмерджентности не входят</p>
+              <p className="font-mono text-xs">
+                {hovered
+                  ? `γ[${hovered.row}][${hovered.col}] = ${coupling[hovered.row][hovered.col].toExponential(3)}`
+                  : `max γ = ${scaleMax.toExponential(3)}`}
+              </p>
+            </div>
+          </div>
+          <canvas
+            ref={canvasRef}
+            width={SIZE}
+            height={SIZE}
+            onClick={paint}
+            onMouseMove={(event) => setHover(cellAt(event))}
+            onMouseLeave={() => setHover(null)}
+            className="w-full max-w-[400px] h-auto border border-border rounded-lg bg-background/50 cursor-crosshair justify-self-center"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CouplingMatrixEditor;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Layers } from 'lucide-react';
+import JobError from './JobError';
+import {
+  EnsembleOptions,
+  EnsembleResult,
+  MAX_ENSEMBLE_RUNS,
+  MIN_ENSEMBLE_RUNS,
+  SimulationParameters,
+  quantile
+} from '@/engine';
+
+interface EnsemblePanelProps {
+  parameters: SimulationParameters;
+  result: EnsembleResult | null;
+  progress: number;
+  isRunning: boolean;
+  error: Error | null;
+  onRun: (options: EnsembleOptions) => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+const histogramConfig = {
+  count: { label: 'Траекторий', color: 'hsl(var(--quantum))' }
+} satisfies ChartConfig;
+
+const EnsemblePanel: React.FC<EnsemblePanelProps> = ({
+  parameters,
+  result,
+  progress,
+  isRunning,
+  error,
+  onRun,
+  onCancel,
+  onClear
+}) => {
+  const [runs, setRuns] = useState(1000);
+  const [horizon, setHorizon] = useState(30);
+
+  const sortedAsiTimes = result ? [...result.asiTimes].sort((a, b) => a - b) : [];
+  const histogramData = result?.asiHistogram.map(bin => ({
+    range: `${bin.start.toFixed(1)}–${bin.end.toFixed(1)}`,
+    count: bin.count
+  })) ?? [];
+
+  return (
+    <Card className="border-quantum bg-gradient-to-br from-card to-quantum/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-quantum" />
+          Ансамбль Монте-Карло
+          <div className="ml-auto text-sm text-muted-foreground">
+            seed = {parameters.seed}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Траекторий N: {runs}</label>
+            <Slider
+              value={[runs]}
+              onValueChange={([value]) => setRuns(value)}
+              min={MIN_ENSEMBLE_RUNS}
+              max={MAX_ENSEMBLE_RUNS}
+              step={100}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Горизонт: {horizon}s</label>
+            <Slider
+              value={[horizon]}
+              onValueChange={([value]) => setHorizon(value)}
+              min={5}
+              max={120}
+              step={5}
+              className="mt-2"
+            />
+          </div>
+          <div className="flex gap-2 items-end">
+            {isRunning ? (
+              <Button variant="outline" onClick={onCancel} className="flex-1">Отмена</Button>
+            ) : (
+              <Button onClick={() => onRun({ runs, horizon })} className="flex-1 bg-gradient-quantum">
+                Запустить ансамбль
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClear} disabled={!result || isRunning}>
+              Очистить
+            </Button>
+          </div>
+        </div>
+
+        {isRunning && <Progress value={progress} />}
+        <JobError error={error} />
+
+        {parameters.noiseModel === 'none' && (
+          <p className="text-xs text-muted-foreground">
+            Стохастический режим выключен — все траектории совпадут. Включите шум α и δ в панели управления.
+          </p>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Достигли ASI:</span>
+                <span className="font-mono text-resonance">{(result.reachedFraction * 100).toFixed(1)}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Медиана T_ASI:</span>
+                <span className="font-mono text-neural">
+                  {sortedAsiTimes.length > 0 ? `${quantile(sortedAsiTimes, 0.5).toFixed(2)}s` : '—'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">T_ASI 5–95%:</span>
+                <span className="font-mono text-energy">
+                  {sortedAsiTimes.length > 0
+                    ? `${quantile(sortedAsiTimes, 0.05).toFixed(2)}–${quantile(sortedAsiTimes, 0.95).toFixed(2)}s`
+                    : '—'}
+                </span>
+              </div>
+            </div>
+
+            {histogramData.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Распределение времени достижения ASI</h4>
+                <ChartContainer config={histogramConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={histogramData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="range" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnsemblePanel;
@@ -0,0 +1,177 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Shield } from 'lucide-react';
+import { ETHICS_EVENT_LABELS, GOVERNOR_LABELS, INTERVENTION_LABELS } from '@/lib/parameter-labels';
+import { TimePoint } from '@/hooks/use-time-series';
+import { Agent, EthicsEvent, EthicsEventType, EthicsState, SimulationParameters, agentEthics } from '@/engine';
+
+interface EthicsDashboardProps {
+  history: TimePoint[];
+  ethics: EthicsState;
+  events: EthicsEvent[];
+  agents: Agent[];
+  parameters: SimulationParameters;
+}
+
+const EVENT_COLORS: Record<EthicsEventType, string> = {
+  violation: 'hsl(var(--destructive))',
+  recovery: 'hsl(var(--resonance))',
+  intervention: 'hsl(var(--energy))',
+  governor: 'hsl(var(--quantum))',
+  shutdown: 'hsl(var(--warning))'
+};
+
+// Event markers drawn on the score chart; older ones are still listed in the timeline
+const MAX_CHART_MARKERS = 50;
+
+const scoreConfig = {
+  value: { label: 'Этическая оценка', color: 'hsl(var(--resonance))' }
+} satisfies ChartConfig;
+
+const agentConfig = {
+  score: { label: 'Оценка агента', color: 'hsl(var(--resonance))' }
+} satisfies ChartConfig;
+
+const eventDetail = (event: EthicsEvent) => {
+  if (event.intervention) return INTERVENTION_LABELS[event.intervention];
+  if (event.governor) return GOVERNOR_LABELS[event.governor];
+  return '';
+};
+
+const EthicsDashboard: React.FC<EthicsDashboardProps> = ({ history, ethics, events, agents, parameters }) => {
+  const threshold = parameters.ethicalThreshold;
+  const agentData = agentEthics(ethics, agents).map(agent => ({ ...agent, name: `#${agent.agent}` }));
+  const violations = events.filter(event => event.type === 'violation').length;
+  const interventions = events.filter(event => event.type === 'intervention' || event.type === 'governor' || event.type === 'shutdown').length;
+
+  const agentColor = (score: number, quarantined: boolean) => {
+    if (quarantined) return 'hsl(var(--muted-foreground))';
+    return score >= threshold ? 'hsl(var(--resonance))' : 'hsl(var(--destructive))';
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-resonance bg-gradient-to-br from-card to-resonance/5">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="h-5 w-5 text-resonance" />
+            Этическая оценка во времени
+            <div className="ml-auto text-sm text-muted-foreground">
+              E = {ethics.score.toFixed(3)}, порог = {threshold}
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={scoreConfig} className="h-72 w-full aspect-auto">
+            <LineChart data={history}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value: number) => `${value.toFixed(0)}s`}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={30} />
+              {events.slice(-MAX_CHART_MARKERS).map((event, i) => (
+                <ReferenceLine
+                  key={`${event.time}-${event.type}-${i}`}
+                  x={event.time}
+                  stroke={EVENT_COLORS[event.type]}
+                  strokeOpacity={0.5}
+                />
+              ))}
+              <ReferenceLine y={threshold} stroke="hsl(var(--destructive))" strokeDasharray="6 4" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            {(Object.keys(EVENT_COLORS) as EthicsEventType[]).map(type => (
+              <span key={type} className="flex items-center gap-1">
+                <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: EVENT_COLORS[type] }} />
+                {ETHICS_EVENT_LABELS[type]}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              Хронология нарушений и вмешательств
+              <div className="ml-auto text-xs text-muted-foreground">
+                нарушений: {violations}, вмешательств: {interventions}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-72 pr-3">
+              {events.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Порог ещё не пересекался</p>
+              ) : (
+                <ol className="relative border-l border-border ml-2 space-y-3">
+                  {[...events].reverse().map((event, i) => (
+                    <li key={`${event.time}-${event.type}-${i}`} className="ml-4">
+                      <span
+                        className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full"
+                        style={{ backgroundColor: EVENT_COLORS[event.type] }}
+                      />
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-mono text-muted-foreground">t={event.time.toFixed(1)}s</span>
+                        <Badge variant="outline" style={{ borderColor: EVENT_COLORS[event.type], color: EVENT_COLORS[event.type] }}>
+                          {ETHICS_EVENT_LABELS[event.type]}
+                        </Badge>
+                        <span>{eventDetail(event)}</span>
+                        <span className="ml-auto font-mono text-xs text-muted-foreground">E = {event.score.toFixed(3)}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              Этика по агентам
+              <div className="ml-auto text-xs text-muted-foreground">
+                в карантине: {ethics.quarantinedAgents} из {agents.length}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={agentConfig} className="h-72 w-full aspect-auto">
+              <BarChart data={agentData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={30} />
+                <ReferenceLine y={threshold} stroke="hsl(var(--destructive))" strokeDasharray="6 4" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="score" radius={2} isAnimationActive={false}>
+                  {agentData.map(agent => (
+                    <Cell key={agent.agent} fill={agentColor(agent.score, agent.quarantined)} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Серые столбцы — агенты в карантине; красные — ниже порога.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default EthicsDashboard;
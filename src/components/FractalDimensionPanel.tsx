@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { CartesianGrid, ComposedChart, Line, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer } from '@/components/ui/chart';
+import { Snowflake } from 'lucide-react';
+import JobError from './JobError';
+import { DimensionAnalysis, DimensionEstimate, DimensionOptions, FORMULAS, SimulationParameters } from '@/engine';
+
+interface FractalDimensionPanelProps {
+  parameters: SimulationParameters;
+  result: DimensionAnalysis | null;
+  progress: number;
+  isRunning: boolean;
+  error: Error | null;
+  onRun: (options: Omit<DimensionOptions, 'onProgress' | 'signal'>) => void;
+  onCancel: () => void;
+}
+
+type Estimator = 'boxCounting' | 'correlation' | 'network';
+
+const ESTIMATORS: [Estimator, string, string, string][] = [
+  ['boxCounting', 'Подсчёт ячеек', 'log(1/ε)', 'log N(ε)'],
+  ['correlation', 'Корреляционная', 'log ε', 'log C(ε)'],
+  ['network', 'Сеть (кратчайшие пути)', 'log r', 'log C(r)']
+];
+
+const cloudConfig = {
+  y: { label: 'r·e^{iψ}', color: 'hsl(var(--resonance))' }
+} satisfies ChartConfig;
+
+const scalingConfig = {
+  fitted: { label: 'В диапазоне подгонки', color: 'hsl(var(--quantum))' },
+  excluded: { label: 'Вне диапазона', color: 'hsl(var(--muted-foreground))' },
+  fit: { label: 'Регрессия', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig;
+
+// The scatter only needs the shape; the estimators see every point
+const MAX_PLOTTED_POINTS = 600;
+
+const formatDimension = (estimate: DimensionEstimate | null) => (estimate ? estimate.dimension.toFixed(3) : '—');
+
+const FractalDimensionPanel: React.FC<FractalDimensionPanelProps> = ({
+  parameters,
+  result,
+  progress,
+  isRunning,
+  error,
+  onRun,
+  onCancel
+}) => {
+  const [horizon, setHorizon] = useState(200);
+  const [estimator, setEstimator] = useState<Estimator>('correlation');
+
+  const [, , xLabel, yLabel] = ESTIMATORS.find(([id]) => id === estimator)!;
+  const estimate = result?.[estimator] ?? null;
+  const fittedPoints = estimate?.points.filter(point => point.fitted) ?? [];
+  const excludedPoints = estimate?.points.filter(point => !point.fitted) ?? [];
+  const fitLine = estimate && fittedPoints.length > 0
+    ? [fittedPoints[0], fittedPoints[fittedPoints.length - 1]].map(({ logScale }) => ({
+        logScale,
+        logMeasure: estimate.intercept + estimate.dimension * logScale
+      }))
+    : [];
+  const stride = Math.max(1, Math.ceil((result?.cloud.length ?? 0) / MAX_PLOTTED_POINTS));
+  const plotted = result?.cloud.filter((_, i) => i % stride === 0) ?? [];
+  const dimension = result?.correlation?.dimension;
+  const omega = dimension !== undefined && dimension > 0 ? FORMULAS.resonanceFrequency.evaluate(dimension, parameters) : null;
+
+  return (
+    <Card className="border-quantum bg-gradient-to-br from-card to-quantum/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Snowflake className="h-5 w-5 text-quantum" />
+          Фрактальная размерность резонансных точек
+          <div className="ml-auto text-sm text-muted-foreground">
+            {FORMULAS.resonanceFrequency.expression}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Запись: {horizon}s</label>
+            <Slider
+              value={[horizon]}
+              onValueChange={([value]) => setHorizon(value)}
+              min={40}
+              max={400}
+              step={20}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">График регрессии</label>
+            <Select value={estimator} onValueChange={(value) => setEstimator(value as Estimator)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ESTIMATORS.map(([id, label]) => (
+                  <SelectItem key={id} value={id}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            {isRunning ? (
+              <Button variant="outline" onClick={onCancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button onClick={() => onRun({ horizon })} className="w-full bg-gradient-energy">
+                Оценить размерность
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isRunning && <Progress value={progress} />}
+        <JobError error={error} />
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">D по подсчёту ячеек</div>
+                <div className="font-mono text-lg">{formatDimension(result.boxCounting)}</div>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">D корреляционная</div>
+                <div className="font-mono text-lg">{formatDimension(result.correlation)}</div>
+                {result.correlation && (
+                  <div className="text-xs text-muted-foreground font-mono">R² = {result.correlation.rSquared.toFixed(3)}</div>
+                )}
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">D сети</div>
+                <div className="font-mono text-lg">{formatDimension(result.network)}</div>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">ω = K / D</div>
+                <div className="font-mono text-lg">{omega === null ? '—' : omega.toFixed(3)}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Облако резонансных точек r·e^{'{iψ}'}</h4>
+                <ChartContainer config={cloudConfig} className="h-72 w-full aspect-auto">
+                  <ScatterChart>
+                    <CartesianGrid />
+                    <XAxis dataKey="x" type="number" domain={[-1, 1]} tickLine={false} axisLine={false} />
+                    <YAxis dataKey="y" type="number" domain={[-1, 1]} tickLine={false} axisLine={false} width={30} />
+                    <Scatter data={plotted} fill="var(--color-y)" fillOpacity={0.4} shape="circle" isAnimationActive={false} />
+                  </ScatterChart>
+                </ChartContainer>
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold mb-2">
+                  {yLabel} против {xLabel}{estimate ? `, наклон D = ${estimate.dimension.toFixed(3)}` : ''}
+                </h4>
+                <ChartContainer config={scalingConfig} className="h-72 w-full aspect-auto">
+                  <ComposedChart>
+                    <CartesianGrid />
+                    <XAxis
+                      dataKey="logScale"
+                      type="number"
+                      domain={['auto', 'auto']}
+                      tickFormatter={(value: number) => value.toFixed(1)}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <YAxis
+                      dataKey="logMeasure"
+                      type="number"
+                      domain={['auto', 'auto']}
+                      tickFormatter={(value: number) => value.toFixed(1)}
+                      tickLine={false}
+                      axisLine={false}
+                      width={40}
+                    />
+                    <Scatter name="fitted" data={fittedPoints} fill="var(--color-fitted)" isAnimationActive={false} />
+                    <Scatter name="excluded" data={excludedPoints} fill="var(--color-excluded)" isAnimationActive={false} />
+                    <Line name="fit" data={fitLine} dataKey="logMeasure" stroke="var(--color-fit)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </ComposedChart>
+                </ChartContainer>
+                <div className="flex flex-wrap gap-3 text-xs text-muted-foreground mt-2">
+                  {Object.values(scalingConfig).map(({ label, color }) => (
+                    <span key={label} className="flex items-center gap-1">
+                      <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>🔲 <strong>Подсчёт ячеек:</strong> N(ε) ∝ ε^(−D) — сколько ячеек сетки со стороной ε покрывают облако</p>
+          <p>🔗 <strong>Корреляционная (Грассбергер–Прокачча):</strong> C(ε) ∝ ε^D — доля пар точек ближе ε</p>
+          <p>🕸️ <strong>Сеть:</strong> та же корреляционная сумма по числу шагов между агентами</p>
+          <p className="text-xs">
+            Резонансные точки — значения среднего поля Курамото после переходного процесса. При полной синхронизации поле
+            описывает окружность и D ≈ 1; дрейфующие агенты раскачивают r, и размерность растёт. В формулу ω подставляется
+            корреляционная оценка.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FractalDimensionPanel;
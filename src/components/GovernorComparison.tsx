@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ShieldCheck } from 'lucide-react';
+import JobError from './JobError';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { GOVERNOR_LABELS } from '@/lib/parameter-labels';
+import { GovernorId, PolicyComparison, SimulationParameters } from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface GovernorComparisonProps {
+  parameters: SimulationParameters;
+}
+
+const trajectoryConfig = {
+  ethicalScore: { label: 'Этика', color: 'hsl(var(--resonance))' }
+} satisfies ChartConfig;
+
+const GovernorComparison: React.FC<GovernorComparisonProps> = ({ parameters }) => {
+  const [horizon, setHorizon] = useState(60);
+
+  const comparison = useBackgroundJob<PolicyComparison>();
+
+  // The unguarded run, each selected governor alone, and all of them together when more than one is selected
+  const compare = () => {
+    const policies: GovernorId[][] = [[], ...parameters.governors.map(id => [id])];
+    if (parameters.governors.length > 1) policies.push(parameters.governors);
+    comparison.run(job => runJobInWorker('policies', parameters, { policies, horizon }, job));
+  };
+
+  const result = comparison.result;
+  const results = result ? result.policies.map((governors, i) => {
+    const trajectory = result.trajectories[i];
+    return {
+      key: governors.length === 0 ? 'none' : governors.join('+'),
+      label: governors.length === 0 ? 'Без политики' : governors.length === 1 ? GOVERNOR_LABELS[governors[0]] : 'Все выбранные',
+      trajectory,
+      data: trajectory.samples.map(sample => ({
+        time: sample.time,
+        intelligence: sample.intelligence,
+        ethicalScore: sample.ethicalScore
+      }))
+    };
+  }) : [];
+
+  return (
+    <Card className="border-resonance bg-gradient-to-br from-card to-resonance/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-resonance" />
+          Сравнение политик выравнивания
+          <div className="ml-auto text-sm text-muted-foreground">
+            порог этики = {parameters.ethicalThreshold}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Горизонт: {horizon}s</label>
+            <Slider
+              value={[horizon]}
+              onValueChange={([value]) => setHorizon(value)}
+              min={10}
+              max={120}
+              step={5}
+              className="mt-2"
+            />
+          </div>
+          <div className="flex items-end">
+            {comparison.isRunning ? (
+              <Button variant="outline" onClick={comparison.cancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button onClick={compare} className="w-full bg-gradient-resonance">
+                Сравнить политики
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {comparison.isRunning && <Progress value={comparison.progress} />}
+        <JobError error={comparison.error} />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {results.map(({ key, label, trajectory, data }) => (
+            <div key={key}>
+              <h4 className="text-sm font-semibold mb-2">{label}</h4>
+              <ChartContainer config={trajectoryConfig} className="h-56 w-full aspect-auto">
+                <LineChart data={data}>
+                  <CartesianGrid />
+                  <XAxis
+                    dataKey="intelligence"
+                    type="number"
+                    scale="log"
+                    domain={['auto', 'auto']}
+                    tickFormatter={(value: number) => value.toExponential(0)}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={30} />
+                  <ReferenceLine
+                    y={parameters.ethicalThreshold}
+                    stroke="hsl(var(--destructive))"
+                    strokeDasharray="4 4"
+                  />
+                  <ChartTooltip content={<ChartTooltipContent labelKey="ethicalScore" />} />
+                  <Line dataKey="ethicalScore" stroke="var(--color-ethicalScore)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+              <div className="grid grid-cols-3 gap-2 mt-2 text-xs text-muted-foreground">
+                <div>
+                  ASI: <span className="font-mono text-foreground">{trajectory.asiTime === null ? '—' : `${trajectory.asiTime.toFixed(1)}s`}</span>
+                </div>
+                <div>
+                  E: <span className="font-mono text-foreground">{trajectory.final.ethics.score.toFixed(2)}</span>
+                </div>
+                <div>
+                  {trajectory.final.governor.halted ? (
+                    <span className="text-destructive">отключено</span>
+                  ) : (
+                    <>I: <span className="font-mono text-foreground">{trajectory.final.metrics.intelligence.toExponential(1)}</span></>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>📉 <strong>Ось X:</strong> интеллект (логарифмическая шкала), <strong>ось Y:</strong> этическая оценка</p>
+          <p>🟥 <strong>Пунктир:</strong> порог этики, ниже которого включаются вмешательства</p>
+          <p className="text-xs">
+            Каждая политика запускается с тем же зерном генератора, что и основная симуляция, и с параметрами на момент запуска.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GovernorComparison;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { GraphMetrics } from '@/engine';
+
+interface GraphMetricsPanelProps {
+  metrics: GraphMetrics;
+}
+
+const degreeConfig = {
+  count: { label: 'Агентов', color: 'hsl(var(--quantum))' }
+} satisfies ChartConfig;
+
+const TOP_AGENTS = 3;
+
+const topAgents = (values: number[]) =>
+  values
+    .map((value, agent) => ({ agent, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, TOP_AGENTS);
+
+const GraphMetricsPanel: React.FC<GraphMetricsPanelProps> = ({ metrics }) => {
+  const n = metrics.degree.length;
+  const edges = metrics.degree.reduce((sum, k) => sum + k, 0) / 2;
+  const degreeData = metrics.degreeDistribution.map((count, degree) => ({ degree, count }));
+
+  const rows: [string, string][] = [
+    ['Связей', edges.toString()],
+    ['Средняя степень ⟨k⟩', n > 0 ? ((2 * edges) / n).toFixed(2) : '—'],
+    ['Кластеризация C', metrics.averageClustering.toFixed(3)],
+    ['Средний путь L', metrics.averagePathLength === null ? '—' : metrics.averagePathLength.toFixed(3)],
+    ['Диаметр', metrics.diameter.toString()],
+    ['Компонент', `${metrics.componentSizes.length} (макс. ${Math.max(0, ...metrics.componentSizes)})`],
+    ['Спектральный радиус λ₁', metrics.spectralRadius.toFixed(3)]
+  ];
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-1">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="font-mono">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-muted-foreground mb-1">Распределение степеней</h4>
+        <ChartContainer config={degreeConfig} className="h-32 w-full aspect-auto">
+          <BarChart data={degreeData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="degree" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `k = ${payload[0]?.payload.degree}`} />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {([['Посредничество', metrics.betweenness], ['Собств. вектор', metrics.eigenvector]] as const).map(([label, values]) => (
+          <div key={label}>
+            <h4 className="font-semibold text-muted-foreground mb-1">{label}</h4>
+            {topAgents(values).map(({ agent, value }) => (
+              <div key={agent} className="flex justify-between font-mono">
+                <span>#{agent}</span>
+                <span>{value.toFixed(3)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GraphMetricsPanel;
@@ -1,13 +1,17 @@
 import React, { useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Brain, TrendingUp } from 'lucide-react';
+import { EnsembleResult, FORMULAS, GrowthRegime, regimeFormula } from '@/engine';
 
 interface IntelligenceGrowthChartProps {
   simulationTime: number;
   intelligence: number;
+  analyticIntelligence?: number;
+  ensemble?: EnsembleResult | null;
   parameters: {
     alpha: number;
     delta: number;
+    regime: GrowthRegime;
   };
   isRunning: boolean;
 }
@@ -15,11 +19,13 @@ interface IntelligenceGrowthChartProps {
 const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
   simulationTime,
   intelligence,
+  analyticIntelligence,
+  ensemble,
   parameters,
   isRunning
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const dataPointsRef = useRef<{ time: number; intelligence: number; baseline: number }[]>([]);
+  const dataPointsRef = useRef<{ time: number; intelligence: number; baseline: number; analytic?: number }[]>([]);
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -34,7 +40,8 @@ const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
       dataPointsRef.current.push({
         time: simulationTime,
         intelligence,
-        baseline: baselineIntelligence
+        baseline: baselineIntelligence,
+        analytic: analyticIntelligence
       });
 
       // Keep only last 500 points for performance
@@ -50,10 +57,16 @@ const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
     const height = canvas.height;
     const padding = 40;
 
-    if (dataPointsRef.current.length < 2) return;
+    const bands = ensemble?.bands ?? [];
+    if (dataPointsRef.current.length < 2 && bands.length < 2) return;
 
-    const maxTime = Math.max(...dataPointsRef.current.map(p => p.time));
-    const maxIntelligence = Math.max(...dataPointsRef.current.map(p => Math.max(p.intelligence, p.baseline)));
+    const maxTime = Math.max(...dataPointsRef.current.map(p => p.time), ...bands.map(b => b.time));
+    const maxIntelligence = Math.max(
+      ...dataPointsRef.current.map(p => Math.max(p.intelligence, p.baseline, p.analytic ?? 0)),
+      ...bands.map(b => b.p95)
+    );
+    const toX = (time: number) => padding + (time / maxTime) * (width - 2 * padding);
+    const toY = (value: number) => height - padding - (value / maxIntelligence) * (height - 2 * padding);
 
     // Draw grid
     ctx.strokeStyle = 'rgba(100, 100, 100, 0.2)';
@@ -73,6 +86,28 @@ const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
       ctx.stroke();
     }
 
+    // Draw Monte Carlo percentile bands: 5–95% outer, 25–75% inner, median line
+    if (bands.length >= 2) {
+      const fillBand = (lower: (b: typeof bands[number]) => number, upper: (b: typeof bands[number]) => number, color: string) => {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        bands.forEach((band, i) => (i === 0 ? ctx.moveTo(toX(band.time), toY(upper(band))) : ctx.lineTo(toX(band.time), toY(upper(band)))));
+        for (let i = bands.length - 1; i >= 0; i--) {
+          ctx.lineTo(toX(bands[i].time), toY(lower(bands[i])));
+        }
+        ctx.closePath();
+        ctx.fill();
+      };
+      fillBand(b => b.p5, b => b.p95, 'rgba(200, 162, 255, 0.12)');
+      fillBand(b => b.p25, b => b.p75, 'rgba(200, 162, 255, 0.25)');
+
+      ctx.strokeStyle = 'hsl(284, 80%, 75%)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      bands.forEach((band, i) => (i === 0 ? ctx.moveTo(toX(band.time), toY(band.median)) : ctx.lineTo(toX(band.time), toY(band.median))));
+      ctx.stroke();
+    }
+
     // Draw baseline (traditional algorithm)
     ctx.strokeStyle = '#6b7280';
     ctx.lineWidth = 2;
@@ -92,6 +127,28 @@ const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
     ctx.stroke();
     ctx.setLineDash([]);
 
+    // Draw analytic reference when the numerical solver has a closed form to compare against
+    if (analyticIntelligence !== undefined) {
+      ctx.strokeStyle = 'hsl(45, 93%, 58%)';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([2, 4]);
+      ctx.beginPath();
+      let started = false;
+      for (const point of dataPointsRef.current) {
+        if (point.analytic === undefined) continue;
+        const x = padding + (point.time / maxTime) * (width - 2 * padding);
+        const y = height - padding - (point.analytic / maxIntelligence) * (height - 2 * padding);
+        if (!started) {
+          ctx.moveTo(x, y);
+          started = true;
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     // Draw hybrid algorithm curve
     const gradient = ctx.createLinearGradient(0, 0, width, 0);
     gradient.addColorStop(0, 'hsl(142, 86%, 56%)');
@@ -137,7 +194,20 @@ const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
     ctx.fillStyle = '#6b7280';
     ctx.fillText(`Базовый: ${dataPointsRef.current[dataPointsRef.current.length - 1]?.baseline.toFixed(2)}x`, width - 200, 50);
 
-  }, [simulationTime, intelligence, isRunning]);
+    if (analyticIntelligence !== undefined) {
+      const absoluteError = Math.abs(intelligence - analyticIntelligence);
+      const relativeError = absoluteError / Math.max(Math.abs(analyticIntelligence), 1e-12);
+      ctx.fillStyle = 'hsl(45, 93%, 58%)';
+      ctx.fillText(`Аналитика: ${analyticIntelligence.toFixed(2)}x`, width - 200, 70);
+      ctx.fillText(`Ошибка: ${absoluteError.toExponential(2)} (${(relativeError * 100).toExponential(1)}%)`, width - 260, 90);
+    }
+
+    if (ensemble) {
+      ctx.fillStyle = 'hsl(284, 80%, 75%)';
+      ctx.fillText(`Ансамбль: N = ${ensemble.runs}`, padding + 10, 30);
+    }
+
+  }, [simulationTime, intelligence, analyticIntelligence, ensemble, isRunning]);
 
   const reset = () => {
     dataPointsRef.current = [];
@@ -172,8 +242,14 @@ const IntelligenceGrowthChart: React.FC<IntelligenceGrowthChartProps> = ({
           className="w-full h-auto border border-border rounded-lg bg-background/50"
         />
         <div className="mt-4 text-sm text-muted-foreground space-y-1">
-          <p>🟢 <strong>Гибридный алгоритм:</strong> I(t) = I₀ + (δQ₀/α)(e^(αt) - 1)</p>
+          <p>🟢 <strong>Гибридный алгоритм:</strong> {FORMULAS[regimeFormula(parameters.regime, 'intelligence')].expression}</p>
           <p>⚪ <strong>Базовый алгоритм:</strong> Линейный рост</p>
+          {ensemble && (
+            <p>🟣 <strong>Ансамбль Монте-Карло:</strong> медиана, полосы 25–75% и 5–95%</p>
+          )}
+          {analyticIntelligence !== undefined && (
+            <p>🟡 <strong>Аналитическое решение:</strong> эталон для оценки ошибки численного решателя</p>
+          )}
           <p className="text-neural">
             <TrendingUp className="inline h-4 w-4 mr-1" />
             Ускорение: {intelligence > 1 ? ((intelligence - 1) * 100).toFixed(1) : '0'}% выше базового
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+
+interface JobErrorProps {
+  error: Error | null;
+  title?: string;
+}
+
+// Failure of a background computation, shown in place of its result
+const JobError: React.FC<JobErrorProps> = ({ error, title = 'Расчёт завершился с ошибкой' }) => {
+  if (!error) return null;
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="font-mono text-xs">{error.message}</AlertDescription>
+    </Alert>
+  );
+};
+
+export default JobError;
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Waves } from 'lucide-react';
+import JobError from './JobError';
+import { TimePoint } from '@/hooks/use-time-series';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { HEAT_GRADIENT, heatColor } from '@/lib/color-scale';
+import {
+  Agent,
+  FORMULAS,
+  SimulationParameters,
+  linspace,
+  lockedMask,
+  naturalFrequency,
+  orderParameter,
+  SynchronizationPoint
+} from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface PhaseSynchronizationPanelProps {
+  agents: Agent[];
+  parameters: SimulationParameters;
+  history: TimePoint[];
+  lockedCount: number;
+  onChange: (patch: Partial<SimulationParameters>) => void;
+}
+
+const SIZE = 320;
+const MAX_COUPLING = 3;
+const CURVE_POINTS = 25;
+// Dragging σ_ω changes every frequency; wait for it to settle before recomputing the curve
+const CURVE_DEBOUNCE_MS = 300;
+
+const historyConfig = {
+  value: { label: 'r(t)', color: 'hsl(var(--resonance))' }
+} satisfies ChartConfig;
+
+const curveConfig = {
+  r: { label: 'r∞', color: 'hsl(var(--quantum))' }
+} satisfies ChartConfig;
+
+const PhaseSynchronizationPanel: React.FC<PhaseSynchronizationPanelProps> = ({
+  agents,
+  parameters,
+  history,
+  lockedCount,
+  onChange
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const parametersRef = useRef(parameters);
+  const curve = useBackgroundJob<SynchronizationPoint[]>();
+  const runCurve = curve.run;
+  const { resonanceStrength: coupling, frequencySpread } = parameters;
+  const criticalCoupling = FORMULAS.criticalCoupling.evaluate(parameters);
+  const { r, psi } = orderParameter(agents.map(agent => agent.phase));
+  const frequencies = agents.map(agent => naturalFrequency(agent, parameters));
+  const meanFrequency = frequencies.reduce((a, b) => a + b, 0) / Math.max(1, frequencies.length);
+  const locked = lockedMask(agents, parameters, r);
+
+  useEffect(() => {
+    parametersRef.current = parameters;
+  }, [parameters]);
+
+  // Depends only on the frequencies, so the curve is recomputed in the worker when they change rather than every tick
+  const frequencyKey = frequencies.join(',');
+  useEffect(() => {
+    const omegas = frequencyKey === '' ? [] : frequencyKey.split(',').map(Number);
+    const timer = setTimeout(() => runCurve(job => runJobInWorker(
+      'synchronization',
+      parametersRef.current,
+      { frequencies: omegas, couplings: linspace(0, MAX_COUPLING, CURVE_POINTS), horizon: 60 },
+      job
+    )), CURVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [frequencyKey, runCurve]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const centre = SIZE / 2;
+    const radius = SIZE / 2 - 24;
+    const spread = Math.max(...frequencies.map(omega => Math.abs(omega - meanFrequency)), Number.MIN_VALUE);
+    ctx.clearRect(0, 0, SIZE, SIZE);
+
+    ctx.beginPath();
+    ctx.arc(centre, centre, radius, 0, Math.PI * 2);
+    ctx.strokeStyle = 'rgba(142, 220, 142, 0.3)';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Canvas y grows downwards, so phases are drawn with a flipped sine to run anticlockwise
+    agents.forEach((agent, i) => {
+      const x = centre + radius * Math.cos(agent.phase);
+      const y = centre - radius * Math.sin(agent.phase);
+      ctx.beginPath();
+      ctx.arc(x, y, locked[i] ? 8 : 5, 0, Math.PI * 2);
+      ctx.fillStyle = heatColor(0.5 + (frequencies[i] - meanFrequency) / (2 * spread));
+      ctx.fill();
+      if (locked[i]) {
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+    });
+
+    const tipX = centre + radius * r * Math.cos(psi);
+    const tipY = centre - radius * r * Math.sin(psi);
+    ctx.beginPath();
+    ctx.moveTo(centre, centre);
+    ctx.lineTo(tipX, tipY);
+    ctx.strokeStyle = 'rgba(200, 162, 255, 0.9)';
+    ctx.lineWidth = 3;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(tipX, tipY, 4, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(200, 162, 255, 0.9)';
+    ctx.fill();
+
+    ctx.fillStyle = 'rgba(220, 220, 220, 0.8)';
+    ctx.font = '12px monospace';
+    ctx.fillText(`r = ${r.toFixed(3)}`, 8, 16);
+  }, [agents, frequencies, meanFrequency, locked, r, psi]);
+
+  return (
+    <Card className="border-resonance bg-gradient-to-br from-card to-resonance/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Waves className="h-5 w-5 text-resonance" />
+          Фазовая синхронизация агентов
+          <div className="ml-auto text-sm text-muted-foreground">
+            K = {coupling.toFixed(2)}, K_c ≈ {criticalCoupling.toFixed(2)}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Связь K: {coupling.toFixed(2)}</label>
+            <Slider
+              value={[coupling]}
+              onValueChange={([value]) => onChange({ resonanceStrength: value })}
+              min={0}
+              max={MAX_COUPLING}
+              step={0.05}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Разброс частот σ_ω: {frequencySpread.toFixed(2)}</label>
+            <Slider
+              value={[frequencySpread]}
+              onValueChange={([value]) => onChange({ frequencySpread: value })}
+              min={0.1}
+              max={2}
+              step={0.05}
+              className="mt-2"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <canvas
+              ref={canvasRef}
+              width={SIZE}
+              height={SIZE}
+              className="w-full h-auto border border-border rounded-lg bg-background/50"
+            />
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>ω_i &lt; Ω</span>
+              <div className="h-2 flex-1 rounded" style={{ background: HEAT_GRADIENT }} />
+              <span>ω_i &gt; Ω</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Захвачено полем: {lockedCount} из {agents.length}
+            </p>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Параметр порядка r(t)</h4>
+            <ChartContainer config={historyConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={history}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value: number) => `${value.toFixed(0)}s`}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={30} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Переход к синхронизации r∞(K)</h4>
+            <ChartContainer config={curveConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={curve.result ?? []}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="coupling"
+                  type="number"
+                  domain={[0, MAX_COUPLING]}
+                  tickFormatter={(value: number) => value.toFixed(1)}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={30} />
+                <ReferenceLine x={criticalCoupling} stroke="hsl(var(--destructive))" strokeDasharray="6 4" />
+                <ReferenceLine x={coupling} stroke="hsl(var(--resonance))" />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `K = ${payload[0]?.payload.coupling.toFixed(2)}`} />} />
+                <Line dataKey="r" stroke="var(--color-r)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+            {curve.isRunning && <Progress value={curve.progress} className="mt-2" />}
+            <JobError error={curve.error} />
+          </div>
+        </div>
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>🌀 <strong>{FORMULAS.kuramoto.expression}</strong>, ω_i = ω₀ + σ_ω·z_i</p>
+          <p>🎯 <strong>{FORMULAS.orderParameter.expression}</strong>: r = 0 — фазы рассеяны, r = 1 — полная синхронность</p>
+          <p>⚡ <strong>{FORMULAS.criticalCoupling.expression}</strong>: выше порога часть агентов захватывается общим ритмом, и r растёт</p>
+          <p className="text-xs">Кривая r∞(K) — среднее r во второй половине прогона при текущих частотах агентов; при малом числе агентов переход размыт.</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PhaseSynchronizationPanel;
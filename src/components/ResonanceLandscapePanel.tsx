@@ -0,0 +1,348 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mountain } from 'lucide-react';
+import JobError from './JobError';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { CRITICAL_KIND_LABELS, LANDSCAPE_OBJECTIVE_LABELS, PARAMETER_LABELS } from '@/lib/parameter-labels';
+import { heatColor } from '@/lib/color-scale';
+import {
+  CRITICAL_KINDS,
+  CriticalKind,
+  EXPLORABLE_PARAMETERS,
+  LANDSCAPE_OBJECTIVES,
+  LOG_SCALED_OBJECTIVES,
+  LandscapeObjective,
+  LandscapeResult,
+  NumericParameter,
+  PARAMETER_RANGES,
+  SimulationParameters,
+  SweepAxis
+} from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface ResonanceLandscapePanelProps {
+  parameters: SimulationParameters;
+  onApply: (patch: Partial<SimulationParameters>) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 500;
+const PADDING = { left: 60, right: 90, top: 20, bottom: 45 };
+
+const MARKER_COLORS: Record<CriticalKind, string> = {
+  minimum: 'rgba(120, 200, 255, 1)',
+  maximum: 'rgba(255, 110, 110, 1)',
+  saddle: 'rgba(255, 255, 255, 1)'
+};
+
+const MARKER_SYMBOLS: Record<CriticalKind, string> = {
+  minimum: '▼',
+  maximum: '▲',
+  saddle: '✕'
+};
+
+const formatValue = (value: number) =>
+  Math.abs(value) >= 1e4 || (Math.abs(value) < 1e-2 && value !== 0) ? value.toExponential(2) : value.toFixed(2);
+
+const defaultAxis = (field: NumericParameter): SweepAxis => {
+  const [min, max] = PARAMETER_RANGES[field] ?? [0, 1];
+  return { field, min, max, steps: 20 };
+};
+
+const ResonanceLandscapePanel: React.FC<ResonanceLandscapePanelProps> = ({ parameters, onApply }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const landscape = useBackgroundJob<LandscapeResult>();
+  const [xAxis, setXAxis] = useState<SweepAxis>(defaultAxis('resonanceStrength'));
+  const [yAxis, setYAxis] = useState<SweepAxis>(defaultAxis('frequencySpread'));
+  const [resolution, setResolution] = useState(20);
+  const [horizon, setHorizon] = useState(30);
+  const [objective, setObjective] = useState<LandscapeObjective>('resonance');
+  const [hovered, setHovered] = useState<{ row: number; col: number } | null>(null);
+
+  const result = landscape.result;
+  const logScale = result ? LOG_SCALED_OBJECTIVES.includes(result.objective) : false;
+  const n = parameters.agentCount;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!result) return;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const cols = result.xValues.length;
+    const rows = result.yValues.length;
+    const cellWidth = plotWidth / cols;
+    const cellHeight = plotHeight / rows;
+
+    const flat = result.surface.flat().filter(Number.isFinite);
+    const min = Math.min(...flat);
+    const max = Math.max(...flat);
+    const normalise = (v: number) => (max > min ? (v - min) / (max - min) : 0.5);
+
+    // Row 0 is the lowest y value, drawn at the bottom
+    const cellX = (col: number) => PADDING.left + col * cellWidth;
+    const cellY = (row: number) => PADDING.top + (rows - 1 - row) * cellHeight;
+
+    result.surface.forEach((row, r) => {
+      row.forEach((value, c) => {
+        ctx.fillStyle = heatColor(normalise(value));
+        ctx.fillRect(cellX(c), cellY(r), Math.ceil(cellWidth), Math.ceil(cellHeight));
+      });
+    });
+
+    // Contours and critical points sit on fractional grid indices through cell centres
+    const toCanvas = (gx: number, gy: number): [number, number] => [
+      cellX(gx) + cellWidth / 2,
+      cellY(gy) + cellHeight / 2
+    ];
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const { segments } of result.contours) {
+      for (const segment of segments) {
+        ctx.moveTo(...toCanvas(segment.x1, segment.y1));
+        ctx.lineTo(...toCanvas(segment.x2, segment.y2));
+      }
+    }
+    ctx.stroke();
+
+    ctx.font = '14px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const point of result.criticalPoints) {
+      const [x, y] = toCanvas(point.col, point.row);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillText(MARKER_SYMBOLS[point.kind], x + 1, y + 1);
+      ctx.fillStyle = MARKER_COLORS[point.kind];
+      ctx.fillText(MARKER_SYMBOLS[point.kind], x, y);
+    }
+    ctx.textBaseline = 'alphabetic';
+
+    if (hovered) {
+      ctx.strokeStyle = 'rgba(255, 255, 150, 1)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(cellX(hovered.col), cellY(hovered.row), cellWidth, cellHeight);
+    }
+
+    // Axes
+    ctx.fillStyle = 'rgba(220, 220, 220, 0.9)';
+    ctx.font = '12px monospace';
+    ctx.textAlign = 'center';
+    [0, Math.floor((cols - 1) / 2), cols - 1].forEach(col => {
+      ctx.fillText(formatValue(result.xValues[col]), cellX(col) + cellWidth / 2, HEIGHT - PADDING.bottom + 16);
+    });
+    ctx.fillText(PARAMETER_LABELS[result.x.field] ?? result.x.field, PADDING.left + plotWidth / 2, HEIGHT - 8);
+    ctx.textAlign = 'right';
+    [0, Math.floor((rows - 1) / 2), rows - 1].forEach(row => {
+      ctx.fillText(formatValue(result.yValues[row]), PADDING.left - 6, cellY(row) + cellHeight / 2 + 4);
+    });
+    ctx.save();
+    ctx.translate(14, PADDING.top + plotHeight / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.fillText(PARAMETER_LABELS[result.y.field] ?? result.y.field, 0, 0);
+    ctx.restore();
+
+    // Colour bar
+    const barX = WIDTH - PADDING.right + 20;
+    for (let i = 0; i < plotHeight; i++) {
+      ctx.fillStyle = heatColor(1 - i / plotHeight);
+      ctx.fillRect(barX, PADDING.top + i, 16, 1);
+    }
+    ctx.textAlign = 'left';
+    const label = (v: number) => formatValue(logScale ? Math.pow(10, v) : v);
+    ctx.fillText(label(max), barX + 20, PADDING.top + 10);
+    ctx.fillText(label(min), barX + 20, PADDING.top + plotHeight);
+  }, [result, logScale, hovered]);
+
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!result || !canvasRef.current) return null;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * (WIDTH / rect.width);
+    const y = (event.clientY - rect.top) * (HEIGHT / rect.height);
+    const cols = result.xValues.length;
+    const rows = result.yValues.length;
+    const col = Math.floor((x - PADDING.left) / ((WIDTH - PADDING.left - PADDING.right) / cols));
+    const rowFromTop = Math.floor((y - PADDING.top) / ((HEIGHT - PADDING.top - PADDING.bottom) / rows));
+    const row = rows - 1 - rowFromTop;
+    if (col < 0 || col >= cols || row < 0 || row >= rows) return null;
+    return { row, col };
+  };
+
+  const build = () => {
+    const x = { ...xAxis, steps: resolution };
+    const y = { ...yAxis, steps: resolution };
+    landscape.run(job => runJobInWorker('landscape', parameters, { x, y, objective, horizon }, job));
+  };
+
+  const hoveredValue = result && hovered ? result.surface[hovered.row][hovered.col] : null;
+  const counts = CRITICAL_KINDS.map(kind => [kind, result?.criticalPoints.filter(point => point.kind === kind).length ?? 0] as const);
+  const total = result?.criticalPoints.length ?? 0;
+
+  const axisControls = (axis: SweepAxis, setAxis: (axis: SweepAxis) => void, name: string) => (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-muted-foreground">{name}</label>
+      <Select value={axis.field} onValueChange={(value) => setAxis(defaultAxis(value as NumericParameter))}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EXPLORABLE_PARAMETERS.map(field => (
+            <SelectItem key={field} value={field}>{PARAMETER_LABELS[field] ?? field}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          value={axis.min}
+          onChange={(event) => setAxis({ ...axis, min: Number(event.target.value) })}
+          className="font-mono"
+        />
+        <Input
+          type="number"
+          value={axis.max}
+          onChange={(event) => setAxis({ ...axis, max: Number(event.target.value) })}
+          className="font-mono"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="border-resonance bg-gradient-to-br from-card to-resonance/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mountain className="h-5 w-5 text-resonance" />
+          Резонансный ландшафт
+          <div className="ml-auto text-sm text-muted-foreground">
+            двумерный срез пространства параметров
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          {axisControls(xAxis, setXAxis, 'Ось X')}
+          {axisControls(yAxis, setYAxis, 'Ось Y')}
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Разрешение: {resolution}</label>
+              <Slider
+                value={[resolution]}
+                onValueChange={([value]) => setResolution(value)}
+                min={5}
+                max={50}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Горизонт: {horizon}s</label>
+              <Slider
+                value={[horizon]}
+                onValueChange={([value]) => setHorizon(value)}
+                min={5}
+                max={120}
+                step={5}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">Целевая функция</label>
+            <Select value={objective} onValueChange={(value) => setObjective(value as LandscapeObjective)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LANDSCAPE_OBJECTIVES.map(id => (
+                  <SelectItem key={id} value={id}>{LANDSCAPE_OBJECTIVE_LABELS[id]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {landscape.isRunning ? (
+              <Button variant="outline" onClick={landscape.cancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button onClick={build} disabled={xAxis.field === yAxis.field} className="w-full bg-gradient-resonance">
+                Построить ландшафт
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {landscape.isRunning && <Progress value={landscape.progress} />}
+        <JobError error={landscape.error} />
+
+        {result && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            {counts.map(([kind, count]) => (
+              <div key={kind} className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">
+                  <span style={{ color: MARKER_COLORS[kind] }}>{MARKER_SYMBOLS[kind]}</span> {CRITICAL_KIND_LABELS[kind]}
+                </div>
+                <div className="font-mono text-lg">{count}</div>
+              </div>
+            ))}
+            <div className="rounded-lg border border-border p-3">
+              <div className="text-muted-foreground">Всего критических точек</div>
+              <div className="font-mono text-lg">{total}</div>
+            </div>
+            <div className="rounded-lg border border-resonance/40 p-3">
+              <div className="text-muted-foreground">Оценка n² при n = {n}</div>
+              <div className="font-mono text-lg">
+                {n * n} <span className="text-xs text-muted-foreground">({(total / (n * n)).toFixed(2)}·n²)</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <canvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onMouseMove={(event) => setHovered(cellAt(event))}
+          onMouseLeave={() => setHovered(null)}
+          onClick={(event) => {
+            const cell = cellAt(event);
+            if (!cell || !result) return;
+            onApply({
+              [result.x.field]: result.xValues[cell.col],
+              [result.y.field]: result.yValues[cell.row]
+            });
+          }}
+          className="w-full h-auto border border-border rounded-lg bg-background/50 cursor-crosshair"
+        />
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          {hoveredValue !== null && result && hovered ? (
+            <p className="font-mono text-foreground">
+              {PARAMETER_LABELS[result.x.field]} = {formatValue(result.xValues[hovered.col])},{' '}
+              {PARAMETER_LABELS[result.y.field]} = {formatValue(result.yValues[hovered.row])} →{' '}
+              {LANDSCAPE_OBJECTIVE_LABELS[result.objective]}: {formatValue(logScale ? Math.pow(10, hoveredValue) : hoveredValue)}
+            </p>
+          ) : (
+            <p>Наведите на ячейку для значений, щелчок загружает параметры в симулятор</p>
+          )}
+          <p>▼ ▲ ✕ <strong>Критические точки:</strong> ∇f = 0 по центральным разностям; тип — по знаку det H и f_xx</p>
+          <p>┄ <strong>Изолинии:</strong> равномерные уровни между минимумом и максимумом среза</p>
+          <p className="text-xs">
+            Теорема оценивает число резонансных точек во всём n-мерном пространстве как O(n²); здесь виден только
+            двумерный срез, так что сравнение с n² показывает порядок, а не проверяет оценку. На шумных целевых функциях,
+            вроде резонанса при малом числе агентов, часть точек — следы флуктуаций, и с ростом разрешения их становится больше.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResonanceLandscapePanel;
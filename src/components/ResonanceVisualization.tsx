@@ -1,181 +1,225 @@
 import React, { useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Atom, Zap } from 'lucide-react';
+import { Agent, FORMULAS, SimulationParameters, lockedMask, naturalFrequency, orderParameter } from '@/engine';
 
 interface ResonanceVisualizationProps {
-  resonancePoints: number;
-  parameters: {
-    agentCount: number;
-    resonanceStrength: number;
-  };
+  agents: Agent[];
+  // Fitted correlation dimension of the resonance point cloud, once estimated
+  dimension: number | null;
+  parameters: SimulationParameters;
   isRunning: boolean;
 }
 
+// A resonance point is a phase-locked agent; it keeps its identity while it fades in and out
 interface ResonancePoint {
+  key: number;
   x: number;
   y: number;
-  intensity: number;
+  targetX: number;
+  targetY: number;
+  // 0 when absent, 1 when fully present; eased towards 1 while locked and towards 0 after
+  presence: number;
+  locked: boolean;
   phase: number;
-  id: number;
 }
 
+const WIDTH = 800;
+const HEIGHT = 400;
+const PADDING = 40;
+// Detuning, in units of σ_ω, at the canvas edges
+const DETUNING_RANGE = 3;
+// Share of the remaining distance covered per frame
+const EASING = 0.08;
+const FADE_PER_FRAME = 0.04;
+
+interface ResonanceLayout {
+  points: { key: number; x: number; y: number; locked: boolean; phase: number }[];
+  // Half-width of the locking band |ω_i - Ω| ≤ K·r in canvas pixels
+  bandHalfWidth: number;
+}
+
+/**
+ * Places each agent by its own model state: detuning ω_i - Ω across, log
+ * intelligence up. Locked agents all fall inside the band |ω_i - Ω| ≤ K·r, so
+ * points enter as the band widens over them and leave as it narrows.
+ */
+const resonanceLayout = (agents: Agent[], parameters: SimulationParameters): ResonanceLayout => {
+  const { r } = orderParameter(agents.map(agent => agent.phase));
+  const locked = lockedMask(agents, parameters, r);
+  const frequencies = agents.map(agent => naturalFrequency(agent, parameters));
+  const mean = frequencies.reduce((a, b) => a + b, 0) / Math.max(1, frequencies.length);
+  const logIntelligence = agents.map(agent => Math.log10(Math.max(agent.intelligence, Number.MIN_VALUE)));
+  const low = Math.min(...logIntelligence);
+  const high = Math.max(...logIntelligence);
+  const xScale = (WIDTH / 2 - PADDING) / (DETUNING_RANGE * parameters.frequencySpread);
+  const xAt = (detuning: number) =>
+    Math.min(WIDTH - PADDING, Math.max(PADDING, WIDTH / 2 + detuning * xScale));
+  const yAt = (value: number) =>
+    high > low ? HEIGHT - PADDING - ((value - low) / (high - low)) * (HEIGHT - 2 * PADDING) : HEIGHT / 2;
+
+  return {
+    points: agents.map((agent, i) => ({
+      // Ids are indices and shift when an agent is removed; the offset is drawn once per agent and stays with it
+      key: agent.frequencyOffset,
+      x: xAt(frequencies[i] - mean),
+      y: yAt(logIntelligence[i]),
+      locked: locked[i],
+      phase: agent.phase
+    })),
+    bandHalfWidth: parameters.resonanceStrength * r * xScale
+  };
+};
+
 const ResonanceVisualization: React.FC<ResonanceVisualizationProps> = ({
-  resonancePoints,
+  agents,
+  dimension,
   parameters,
   isRunning
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
-  const resonancePointsRef = useRef<ResonancePoint[]>([]);
+  const pointsRef = useRef(new Map<number, ResonancePoint>());
+  const bandRef = useRef(0);
   const timeRef = useRef(0);
+  const layout = resonanceLayout(agents, parameters);
+  const resonancePoints = layout.points.filter(point => point.locked).length;
 
+  // Merge the model's layout into the persistent points: existing ones get new targets, new agents enter at their place
   useEffect(() => {
-    // Generate resonance points based on current parameters
-    const newPoints: ResonancePoint[] = [];
-    for (let i = 0; i < resonancePoints; i++) {
-      newPoints.push({
-        x: Math.random() * 800,
-        y: Math.random() * 400,
-        intensity: 0.5 + Math.random() * 0.5,
-        phase: Math.random() * Math.PI * 2,
-        id: i
-      });
+    const points = pointsRef.current;
+    const seen = new Set<number>();
+    for (const { key, x, y, locked, phase } of layout.points) {
+      seen.add(key);
+      const point = points.get(key);
+      if (point) {
+        Object.assign(point, { targetX: x, targetY: y, locked, phase });
+      } else {
+        points.set(key, { key, x, y, targetX: x, targetY: y, presence: 0, locked, phase });
+      }
+    }
+    // Agents gone from the network fade out where they stood
+    for (const point of points.values()) {
+      if (!seen.has(point.key)) point.locked = false;
     }
-    resonancePointsRef.current = newPoints;
-  }, [resonancePoints]);
+    bandRef.current = layout.bandHalfWidth;
+  });
 
   useEffect(() => {
-    if (!canvasRef.current) return;
-
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
-    const animate = () => {
-      if (!isRunning) return;
+    const dimensionText = dimension !== null
+      ? `Фрактальная размерность D = ${dimension.toFixed(2)}`
+      : 'Фрактальная размерность D: не оценена';
+    const omegaText = dimension !== null && dimension > 0
+      ? `${FORMULAS.resonanceFrequency.expression} = ${FORMULAS.resonanceFrequency.evaluate(dimension, parameters).toFixed(2)}`
+      : FORMULAS.resonanceFrequency.expression;
 
-      timeRef.current += 0.05;
-      
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      const width = canvas.width;
-      const height = canvas.height;
-
-      // Draw background field
-      const fieldGradient = ctx.createRadialGradient(width/2, height/2, 0, width/2, height/2, Math.max(width, height)/2);
-      fieldGradient.addColorStop(0, 'rgba(142, 220, 142, 0.1)');
-      fieldGradient.addColorStop(1, 'rgba(142, 220, 142, 0.0)');
-      ctx.fillStyle = fieldGradient;
-      ctx.fillRect(0, 0, width, height);
-
-      // Draw resonance points and their interactions
-      resonancePointsRef.current.forEach((point, i) => {
-        const currentIntensity = point.intensity * (1 + 0.3 * Math.sin(timeRef.current * 2 + point.phase));
-        
-        // Draw resonance waves
-        for (let wave = 0; wave < 3; wave++) {
-          const waveRadius = (timeRef.current * 50 + wave * 30) % 150;
-          const alpha = Math.max(0, 1 - waveRadius / 150) * currentIntensity * 0.3;
-          
-          ctx.beginPath();
-          ctx.arc(point.x, point.y, waveRadius, 0, Math.PI * 2);
-          ctx.strokeStyle = `rgba(142, 220, 142, ${alpha})`;
-          ctx.lineWidth = 2;
-          ctx.stroke();
+    // Moves every point one easing step towards its target and presence; returns whether anything is still moving
+    const advance = () => {
+      let moving = false;
+      for (const point of pointsRef.current.values()) {
+        point.x += (point.targetX - point.x) * EASING;
+        point.y += (point.targetY - point.y) * EASING;
+        const target = point.locked ? 1 : 0;
+        point.presence = target > point.presence
+          ? Math.min(1, point.presence + FADE_PER_FRAME)
+          : Math.max(0, point.presence - FADE_PER_FRAME);
+        if (point.presence !== target || Math.hypot(point.targetX - point.x, point.targetY - point.y) > 0.5) moving = true;
+        if (point.presence === 0 && !point.locked) pointsRef.current.delete(point.key);
+      }
+      return moving;
+    };
+
+    const draw = (animated: boolean) => {
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+      const visible = [...pointsRef.current.values()].filter(point => point.presence > 0);
+
+      // Locking band around the mean frequency
+      const band = bandRef.current;
+      const bandGradient = ctx.createLinearGradient(WIDTH / 2 - band, 0, WIDTH / 2 + band, 0);
+      bandGradient.addColorStop(0, 'rgba(142, 220, 142, 0.02)');
+      bandGradient.addColorStop(0.5, 'rgba(142, 220, 142, 0.12)');
+      bandGradient.addColorStop(1, 'rgba(142, 220, 142, 0.02)');
+      ctx.fillStyle = bandGradient;
+      ctx.fillRect(WIDTH / 2 - band, 0, 2 * band, HEIGHT);
+      ctx.strokeStyle = 'rgba(142, 220, 142, 0.25)';
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.moveTo(WIDTH / 2, 0);
+      ctx.lineTo(WIDTH / 2, HEIGHT);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      visible.forEach((point, i) => {
+        // Locked agents share the mean-field rhythm, so their pulses beat together
+        const intensity = point.presence * (animated ? 0.75 + 0.25 * Math.sin(point.phase) : 0.6);
+
+        if (animated) {
+          for (let wave = 0; wave < 3; wave++) {
+            const waveRadius = (timeRef.current * 50 + wave * 30) % 150;
+            const alpha = Math.max(0, 1 - waveRadius / 150) * intensity * 0.3;
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, waveRadius, 0, Math.PI * 2);
+            ctx.strokeStyle = `rgba(142, 220, 142, ${alpha})`;
+            ctx.lineWidth = 2;
+            ctx.stroke();
+          }
         }
 
-        // Draw the resonance point itself
         const coreGradient = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, 15);
-        coreGradient.addColorStop(0, `rgba(142, 220, 142, ${currentIntensity})`);
-        coreGradient.addColorStop(0.7, `rgba(200, 162, 255, ${currentIntensity * 0.7})`);
+        coreGradient.addColorStop(0, `rgba(142, 220, 142, ${intensity})`);
+        coreGradient.addColorStop(0.7, `rgba(200, 162, 255, ${intensity * 0.7})`);
         coreGradient.addColorStop(1, 'rgba(200, 162, 255, 0)');
-        
         ctx.fillStyle = coreGradient;
         ctx.beginPath();
-        ctx.arc(point.x, point.y, 8 + currentIntensity * 5, 0, Math.PI * 2);
+        // Entering points grow from nothing, leaving ones shrink away
+        ctx.arc(point.x, point.y, (8 + intensity * 5) * point.presence, 0, Math.PI * 2);
         ctx.fill();
 
-        // Draw connections between nearby points
-        resonancePointsRef.current.forEach((otherPoint, j) => {
-          if (i >= j) return;
-          
-          const dx = otherPoint.x - point.x;
-          const dy = otherPoint.y - point.y;
-          const distance = Math.sqrt(dx * dx + dy * dy);
-          
-          if (distance < 150) {
-            const connectionStrength = (150 - distance) / 150;
-            const alpha = connectionStrength * currentIntensity * 0.4;
-            
-            // Animate connection
-            const connectionPhase = Math.sin(timeRef.current * 3 + distance * 0.01);
-            const animatedAlpha = alpha * (0.7 + 0.3 * connectionPhase);
-            
-            ctx.beginPath();
-            ctx.moveTo(point.x, point.y);
-            ctx.lineTo(otherPoint.x, otherPoint.y);
-            ctx.strokeStyle = `rgba(200, 162, 255, ${animatedAlpha})`;
-            ctx.lineWidth = 1 + connectionStrength * 2;
-            ctx.stroke();
-
-            // Draw energy particles along connection
-            if (connectionStrength > 0.5) {
-              const particlePos = (timeRef.current * 0.5) % 1;
-              const particleX = point.x + dx * particlePos;
-              const particleY = point.y + dy * particlePos;
-              
-              ctx.fillStyle = `rgba(255, 255, 100, ${animatedAlpha * 2})`;
-              ctx.beginPath();
-              ctx.arc(particleX, particleY, 2, 0, Math.PI * 2);
-              ctx.fill();
-            }
-          }
+        visible.slice(i + 1).forEach(other => {
+          const dx = other.x - point.x;
+          const dy = other.y - point.y;
+          const distance = Math.hypot(dx, dy);
+          if (distance >= 150) return;
+          const strength = (150 - distance) / 150;
+          const alpha = strength * Math.min(point.presence, other.presence) * 0.4;
+          ctx.beginPath();
+          ctx.moveTo(point.x, point.y);
+          ctx.lineTo(other.x, other.y);
+          ctx.strokeStyle = `rgba(200, 162, 255, ${alpha})`;
+          ctx.lineWidth = 1 + strength * 2;
+          ctx.stroke();
         });
       });
 
-      // Draw fractal dimension visualization
       ctx.fillStyle = 'rgba(220, 220, 220, 0.8)';
       ctx.font = '14px monospace';
-      const fractalDim = resonancePoints > 0 ? Math.log(resonancePoints) / Math.log(parameters.agentCount) : 0;
-      ctx.fillText(`Фрактальная размерность D = ${fractalDim.toFixed(2)}`, 20, 30);
+      ctx.fillText(dimensionText, 20, 30);
       ctx.fillText(`Резонансных точек: ${resonancePoints}`, 20, 50);
-      ctx.fillText(`ω = (1/D) × Σ(qₖ/mₖ) = ${(1/Math.max(fractalDim, 0.1) * parameters.resonanceStrength).toFixed(2)}`, 20, 70);
-
-      animationRef.current = requestAnimationFrame(animate);
+      ctx.fillText(omegaText, 20, 70);
+      ctx.font = '12px monospace';
+      ctx.fillText('ω_i − Ω →', WIDTH - 100, HEIGHT - 12);
+      ctx.fillText('↑ log I_i', 8, HEIGHT - 12);
     };
 
-    if (isRunning) {
-      animationRef.current = requestAnimationFrame(animate);
-    } else {
-      // Draw static state
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      resonancePointsRef.current.forEach(point => {
-        const coreGradient = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, 15);
-        coreGradient.addColorStop(0, `rgba(142, 220, 142, ${point.intensity * 0.3})`);
-        coreGradient.addColorStop(1, 'rgba(142, 220, 142, 0)');
-        
-        ctx.fillStyle = coreGradient;
-        ctx.beginPath();
-        ctx.arc(point.x, point.y, 6, 0, Math.PI * 2);
-        ctx.fill();
-      });
-
-      // Draw static info
-      ctx.fillStyle = 'rgba(220, 220, 220, 0.8)';
-      ctx.font = '14px monospace';
-      const fractalDim = resonancePoints > 0 ? Math.log(resonancePoints) / Math.log(parameters.agentCount) : 0;
-      ctx.fillText(`Фрактальная размерность D = ${fractalDim.toFixed(2)}`, 20, 30);
-      ctx.fillText(`Резонансных точек: ${resonancePoints}`, 20, 50);
-    }
+    const animate = () => {
+      timeRef.current += 0.05;
+      const moving = advance();
+      draw(isRunning);
+      // Keep animating while running, or until paused points have finished entering or leaving
+      if (isRunning || moving) animationRef.current = requestAnimationFrame(animate);
+    };
+    animationRef.current = requestAnimationFrame(animate);
 
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isRunning, resonancePoints, parameters]);
+  }, [isRunning, agents, resonancePoints, dimension, parameters]);
 
   return (
     <Card className="border-resonance bg-gradient-to-br from-card to-resonance/5">
@@ -184,20 +228,21 @@ const ResonanceVisualization: React.FC<ResonanceVisualizationProps> = ({
           <Atom className="h-5 w-5 text-resonance" />
           Резонансный Анализ
           <div className="ml-auto text-sm text-muted-foreground">
-            Сила: {parameters.resonanceStrength}x
+            K = {parameters.resonanceStrength.toFixed(2)}
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
         <canvas
           ref={canvasRef}
-          width={800}
-          height={400}
+          width={WIDTH}
+          height={HEIGHT}
           className="w-full h-auto border border-border rounded-lg bg-background/50"
         />
         <div className="mt-4 text-sm text-muted-foreground space-y-1">
-          <p>🔵 <strong>Резонансные точки:</strong> Области максимального отклика системы</p>
-          <p>🟣 <strong>Связи:</strong> Взаимодействие между точками через attention-механизмы</p>
+          <p>🔵 <strong>Резонансные точки:</strong> Агенты, захваченные общим ритмом, |ω_i − Ω| ≤ K·r</p>
+          <p>📍 <strong>Положение:</strong> по горизонтали — расстройка собственной частоты ω_i − Ω, по вертикали — log I_i</p>
+          <p>🟩 <strong>Полоса захвата:</strong> ширина 2K·r; точки появляются, когда полоса накрывает агента, и гаснут, когда она сужается</p>
           <p className="text-resonance">
             <Zap className="inline h-4 w-4 mr-1" />
             Малое изменение в резонансной точке → Большой эффект в системе
@@ -208,4 +253,4 @@ const ResonanceVisualization: React.FC<ResonanceVisualizationProps> = ({
   );
 };
 
-export default ResonanceVisualization;
\ No newline at end of file
+export default ResonanceVisualization;
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ShieldAlert } from 'lucide-react';
+import JobError from './JobError';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { FAILURE_MODE_LABELS, FAILURE_TARGETING_LABELS } from '@/lib/parameter-labels';
+import {
+  FAILURE_MODES,
+  FAILURE_TARGETINGS,
+  FailureMode,
+  FailureTargeting,
+  RobustnessResult,
+  SimulationParameters
+} from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface RobustnessPanelProps {
+  parameters: SimulationParameters;
+}
+
+const emergenceConfig = {
+  baselineEmergence: { label: 'Без сбоев', color: 'hsl(var(--neural))' },
+  perturbedEmergence: { label: 'Со сбоями', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig;
+
+const ethicsConfig = {
+  baselineEthics: { label: 'Без сбоев', color: 'hsl(var(--resonance))' },
+  perturbedEthics: { label: 'Со сбоями', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig;
+
+const RobustnessPanel: React.FC<RobustnessPanelProps> = ({ parameters }) => {
+  const experiment = useBackgroundJob<RobustnessResult>();
+  const [mode, setMode] = useState<FailureMode>('kill');
+  const [targeting, setTargeting] = useState<FailureTargeting>('random');
+  const [count, setCount] = useState(3);
+  const [onset, setOnset] = useState(10);
+  const [spacing, setSpacing] = useState(5);
+  const [horizon, setHorizon] = useState(60);
+  const [trials, setTrials] = useState(5);
+
+  const result = experiment.result;
+  const maxCount = Math.max(1, parameters.agentCount - 1);
+
+  const sliders: [string, string, number, (value: number) => void, number, number, number][] = [
+    ['count', `Агентов: ${Math.min(count, maxCount)}`, Math.min(count, maxCount), setCount, 1, maxCount, 1],
+    ['onset', `Начало: ${onset}s`, onset, setOnset, 0, 60, 1],
+    ['spacing', `Интервал: ${spacing}s`, spacing, setSpacing, 1, 30, 1],
+    ['horizon', `Горизонт: ${horizon}s`, horizon, setHorizon, 10, 120, 5],
+    ['trials', `Повторов: ${trials}`, trials, setTrials, 1, 20, 1]
+  ];
+
+  const run = () =>
+    experiment.run(job =>
+      runJobInWorker(
+        'robustness',
+        parameters,
+        { mode, targeting, count: Math.min(count, maxCount), onset, interval: spacing, horizon, trials },
+        job
+      )
+    );
+
+  return (
+    <Card className="border-destructive/50 bg-gradient-to-br from-card to-destructive/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-destructive" />
+          Устойчивость сети к сбоям
+          <div className="ml-auto text-sm text-muted-foreground">
+            сравнение с прогоном без сбоев
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Сбой</label>
+            <Select value={mode} onValueChange={(value) => setMode(value as FailureMode)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FAILURE_MODES.map(id => (
+                  <SelectItem key={id} value={id}>{FAILURE_MODE_LABELS[id]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Выбор агентов</label>
+            <Select value={targeting} onValueChange={(value) => setTargeting(value as FailureTargeting)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FAILURE_TARGETINGS.map(id => (
+                  <SelectItem key={id} value={id}>{FAILURE_TARGETING_LABELS[id]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {sliders.map(([key, label, value, onChange, min, max, step]) => (
+            <div key={key}>
+              <label className="text-sm font-medium text-muted-foreground">{label}</label>
+              <Slider
+                value={[value]}
+                onValueChange={([next]) => onChange(next)}
+                min={min}
+                max={max}
+                step={step}
+                className="mt-2"
+              />
+            </div>
+          ))}
+          <div className="flex items-end">
+            {experiment.isRunning ? (
+              <Button variant="outline" onClick={experiment.cancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button onClick={run} className="w-full bg-gradient-energy">
+                Запустить эксперимент
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {experiment.isRunning && <Progress value={experiment.progress} />}
+        <JobError error={experiment.error} />
+
+        {result && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">I_эм к концу, доля от базовой</div>
+                <div className="font-mono text-lg">{(100 * result.emergenceRatio).toFixed(1)}%</div>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">Наибольшая потеря I_эм</div>
+                <div className="font-mono text-lg">{(100 * result.peakEmergenceLoss).toFixed(1)}%</div>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-muted-foreground">Изменение этической оценки к концу</div>
+                <div className="font-mono text-lg">{result.ethicsChange >= 0 ? '+' : ''}{result.ethicsChange.toFixed(3)}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Эмерджентный интеллект</h4>
+                <ChartContainer config={emergenceConfig} className="h-64 w-full aspect-auto">
+                  <LineChart data={result.samples}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={(value: number) => `${value.toFixed(0)}s`}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <YAxis
+                      scale="log"
+                      domain={['auto', 'auto']}
+                      tickFormatter={(value: number) => value.toExponential(0)}
+                      tickLine={false}
+                      axisLine={false}
+                      width={50}
+                    />
+                    {result.perturbations.map(({ time, agent }) => (
+                      <ReferenceLine key={`${time}-${agent}`} x={time} stroke="hsl(var(--destructive))" strokeOpacity={0.4} strokeDasharray="3 3" />
+                    ))}
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="baselineEmergence" stroke="var(--color-baselineEmergence)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="perturbedEmergence" stroke="var(--color-perturbedEmergence)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Этическая оценка</h4>
+                <ChartContainer config={ethicsConfig} className="h-64 w-full aspect-auto">
+                  <LineChart data={result.samples}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={(value: number) => `${value.toFixed(0)}s`}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={30} />
+                    {result.perturbations.map(({ time, agent }) => (
+                      <ReferenceLine key={`${time}-${agent}`} x={time} stroke="hsl(var(--destructive))" strokeOpacity={0.4} strokeDasharray="3 3" />
+                    ))}
+                    <ReferenceLine y={parameters.ethicalThreshold} stroke="hsl(var(--destructive))" strokeDasharray="6 4" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="baselineEthics" stroke="var(--color-baselineEthics)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="perturbedEthics" stroke="var(--color-perturbedEthics)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Затронутые агенты (первый повтор): {result.perturbations.length > 0
+                ? result.perturbations.map(({ time, agent }) => `#${agent} в t=${time.toFixed(0)}s`).join(', ')
+                : 'нет'}
+            </p>
+          </>
+        )}
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>💀 <strong>Отказ:</strong> агент удаляется из сети вместе со своими связями</p>
+          <p>😈 <strong>Переход в противники:</strong> агент становится противником и подмешивает соседям ложные гипотезы</p>
+          <p>🎯 <strong>Самые центральные:</strong> каждый раз выбирается агент с наибольшей центральностью по посредничеству в текущем графе</p>
+          <p className="text-xs">Оба прогона каждого повтора используют одно зерно, так что разница вызвана только сбоями. Нумерация агентов — на момент сбоя.</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RobustnessPanel;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { SlidersHorizontal } from 'lucide-react';
+import JobError from './JobError';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { OUTPUT_LABELS, PARAMETER_LABELS } from '@/lib/parameter-labels';
+import {
+  SensitivityAnalysis,
+  SensitivityOutput,
+  SENSITIVITY_OUTPUTS,
+  SimulationParameters
+} from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface SensitivityPanelProps {
+  parameters: SimulationParameters;
+}
+
+const tornadoConfig = {
+  low: { label: 'Минимум фактора', color: 'hsl(var(--neural))' },
+  high: { label: 'Максимум фактора', color: 'hsl(var(--energy))' }
+} satisfies ChartConfig;
+
+// Each swing is drawn as its own bar from the baseline, so same-signed swings sit side by side instead of adding up
+const swingExtent = ({ low, high }: { low: number; high: number }) => Math.max(low, high, 0) - Math.min(low, high, 0);
+
+const morrisConfig = {
+  muStar: { label: 'μ*', color: 'hsl(var(--quantum))' },
+  sigma: { label: 'σ', color: 'hsl(var(--warning))' }
+} satisfies ChartConfig;
+
+const sobolConfig = {
+  firstOrder: { label: 'S₁ (первый порядок)', color: 'hsl(var(--resonance))' },
+  totalOrder: { label: 'S_T (полный)', color: 'hsl(var(--neural))' }
+} satisfies ChartConfig;
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ parameters }) => {
+  const analysis = useBackgroundJob<SensitivityAnalysis>();
+  const [output, setOutput] = useState<SensitivityOutput>('asiTime');
+  const [horizon, setHorizon] = useState(30);
+  const [trajectories, setTrajectories] = useState(20);
+  const [samples, setSamples] = useState(256);
+
+  const result = analysis.result;
+
+  const tornadoData = result
+    ? result.tornado.entries
+        .map(entry => ({
+          factor: PARAMETER_LABELS[entry.factor],
+          low: entry.low[output] - result.tornado.baseline[output],
+          high: entry.high[output] - result.tornado.baseline[output]
+        }))
+        // Ordered by the full range the output covers, baseline included, as both swings may share a sign
+        .sort((a, b) => swingExtent(b) - swingExtent(a))
+    : [];
+
+  const morrisData = result?.morris[output].map(index => ({
+    factor: PARAMETER_LABELS[index.factor],
+    muStar: index.muStar,
+    sigma: index.sigma
+  })) ?? [];
+
+  const sobolData = result?.sobol[output].map(index => ({
+    factor: PARAMETER_LABELS[index.factor],
+    firstOrder: index.firstOrder,
+    totalOrder: index.totalOrder
+  })) ?? [];
+
+  return (
+    <Card className="border-energy bg-gradient-to-br from-card to-energy/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-energy" />
+          Глобальный анализ чувствительности
+          <div className="ml-auto text-sm text-muted-foreground">
+            Morris + Sobol
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Выход</label>
+            <Select value={output} onValueChange={(value) => setOutput(value as SensitivityOutput)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SENSITIVITY_OUTPUTS.map(id => (
+                  <SelectItem key={id} value={id}>{OUTPUT_LABELS[id]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Горизонт: {horizon}s</label>
+            <Slider
+              value={[horizon]}
+              onValueChange={([value]) => setHorizon(value)}
+              min={5}
+              max={120}
+              step={5}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Траектории Morris: {trajectories}</label>
+            <Slider
+              value={[trajectories]}
+              onValueChange={([value]) => setTrajectories(value)}
+              min={5}
+              max={100}
+              step={5}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Выборка Sobol: {samples}</label>
+            <Slider
+              value={[Math.log2(samples)]}
+              onValueChange={([value]) => setSamples(Math.pow(2, value))}
+              min={6}
+              max={11}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+          <div className="flex items-end">
+            {analysis.isRunning ? (
+              <Button variant="outline" onClick={analysis.cancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button
+                onClick={() => analysis.run(job => runJobInWorker('sensitivity', parameters, { horizon, trajectories, samples }, job))}
+                className="w-full bg-gradient-energy"
+              >
+                Анализировать
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {analysis.isRunning && <Progress value={analysis.progress} />}
+        <JobError error={analysis.error} />
+
+        {result && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Торнадо: отклонение от базового прогона</h4>
+              <ChartContainer config={tornadoConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={tornadoData} layout="vertical" barGap={0}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="factor" tickLine={false} axisLine={false} width={70} />
+                  <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="low" fill="var(--color-low)" />
+                  <Bar dataKey="high" fill="var(--color-high)" />
+                </BarChart>
+              </ChartContainer>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Morris: элементарные эффекты</h4>
+              <ChartContainer config={morrisConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={morrisData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="factor" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="muStar" fill="var(--color-muStar)" radius={2} />
+                  <Bar dataKey="sigma" fill="var(--color-sigma)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Sobol: доли дисперсии</h4>
+              <ChartContainer config={sobolConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={sobolData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="factor" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} domain={[0, 1]} allowDataOverflow />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="firstOrder" fill="var(--color-firstOrder)" radius={2} />
+                  <Bar dataKey="totalOrder" fill="var(--color-totalOrder)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </div>
+        )}
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>🌪 <strong>Торнадо:</strong> каждый фактор отдельно сдвигается к границам диапазона</p>
+          <p>📊 <strong>Morris:</strong> μ* — общая важность, σ — нелинейность и взаимодействия</p>
+          <p>📈 <strong>Sobol:</strong> S₁ — собственный вклад в дисперсию, S_T — вклад с учётом взаимодействий</p>
+          <p className="text-xs">Если ASI не достигнут за горизонт, время ASI принимается равным горизонту.</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { AudioWaveform } from 'lucide-react';
+import JobError from './JobError';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { HEAT_GRADIENT, heatColor } from '@/lib/color-scale';
+import { SimulationParameters, SpectralResult } from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface SpectrumPanelProps {
+  parameters: SimulationParameters;
+}
+
+const WINDOW_SIZES = [64, 128, 256, 512];
+const SPECTROGRAM_WIDTH = 800;
+const SPECTROGRAM_HEIGHT = 200;
+// Decades of power below the strongest bin that still get a colour
+const DYNAMIC_RANGE = 6;
+
+const spectrumConfig = {
+  collective: { label: 'Средняя активность', color: 'hsl(var(--resonance))' },
+  agent: { label: 'Агент', color: 'hsl(var(--quantum))' }
+} satisfies ChartConfig;
+
+const SpectrumPanel: React.FC<SpectrumPanelProps> = ({ parameters }) => {
+  const analysis = useBackgroundJob<SpectralResult>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [horizon, setHorizon] = useState(120);
+  const [windowSize, setWindowSize] = useState(256);
+  const [agent, setAgent] = useState('none');
+
+  const result = analysis.result;
+  const selected = result && agent !== 'none' ? result.agents[Number(agent)] : undefined;
+  const spectrumData = result?.frequencies.slice(1).map((frequency, i) => ({
+    frequency,
+    collective: result.collective[i + 1],
+    agent: selected?.[i + 1]
+  }));
+  const dominant = result?.peaks[0]?.frequency;
+  const onDominant = result && dominant !== undefined
+    ? result.agentPeaks.filter(peak => Math.abs(peak - dominant) <= result.frequencies[1]).length
+    : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !result || result.spectrogram.length === 0) return;
+
+    const columns = result.spectrogram;
+    const bins = result.frequencies.length;
+    const maxPower = Math.max(...columns.flatMap(column => column.power.slice(1)), Number.MIN_VALUE);
+    const width = SPECTROGRAM_WIDTH / columns.length;
+    const height = SPECTROGRAM_HEIGHT / (bins - 1);
+    ctx.clearRect(0, 0, SPECTROGRAM_WIDTH, SPECTROGRAM_HEIGHT);
+    columns.forEach((column, c) => {
+      // Low frequencies at the bottom; the DC bin only carries the removed mean
+      for (let k = 1; k < bins; k++) {
+        const level = 1 + Math.log10(Math.max(column.power[k], Number.MIN_VALUE) / maxPower) / DYNAMIC_RANGE;
+        ctx.fillStyle = heatColor(Math.max(0, level));
+        ctx.fillRect(c * width, SPECTROGRAM_HEIGHT - k * height, Math.ceil(width), Math.ceil(height));
+      }
+    });
+  }, [result]);
+
+  const run = () => analysis.run(job => runJobInWorker('spectrum', parameters, { horizon, windowSize }, job));
+
+  return (
+    <Card className="border-quantum bg-gradient-to-br from-card to-quantum/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AudioWaveform className="h-5 w-5 text-quantum" />
+          Спектр активности агентов
+          <div className="ml-auto text-sm text-muted-foreground">
+            БПФ, метод Уэлча
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Запись: {horizon}s</label>
+            <Slider
+              value={[horizon]}
+              onValueChange={([value]) => setHorizon(value)}
+              min={30}
+              max={300}
+              step={10}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Окно БПФ</label>
+            <Select value={windowSize.toString()} onValueChange={(value) => setWindowSize(Number(value))}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WINDOW_SIZES.map(size => (
+                  <SelectItem key={size} value={size.toString()}>{size} отсчётов ({(size / 10).toFixed(1)}s)</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Спектр агента</label>
+            <Select value={agent} onValueChange={setAgent}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Не показывать</SelectItem>
+                {result?.agents.map((_, i) => (
+                  <SelectItem key={i} value={i.toString()}>#{i}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            {analysis.isRunning ? (
+              <Button variant="outline" onClick={analysis.cancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button onClick={run} className="w-full bg-gradient-energy">
+                Записать и разложить
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {analysis.isRunning && <Progress value={analysis.progress} />}
+        <JobError error={analysis.error} />
+
+        {result && spectrumData && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              {result.peaks.map(({ frequency, power }, i) => (
+                <div key={frequency} className="rounded-lg border border-border p-3">
+                  <div className="text-muted-foreground">{i === 0 ? 'Доминирующая частота' : `Пик ${i + 1}`}</div>
+                  <div className="font-mono text-lg">
+                    {frequency.toFixed(3)} Гц · ω = {(2 * Math.PI * frequency).toFixed(2)}
+                  </div>
+                  <div className="text-xs text-muted-foreground font-mono">S = {power.toExponential(2)}</div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Спектральная плотность мощности</h4>
+              <ChartContainer config={spectrumConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={spectrumData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="frequency"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(value: number) => `${value.toFixed(2)}`}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    scale="log"
+                    domain={['auto', 'auto']}
+                    allowDataOverflow
+                    tickFormatter={(value: number) => value.toExponential(0)}
+                    tickLine={false}
+                    axisLine={false}
+                    width={50}
+                  />
+                  <ReferenceLine x={result.naturalFrequency} stroke="hsl(var(--muted-foreground))" strokeDasharray="6 4" />
+                  {result.peaks.map(({ frequency }) => (
+                    <ReferenceLine key={frequency} x={frequency} stroke="hsl(var(--destructive))" strokeOpacity={0.5} />
+                  ))}
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `f = ${payload[0]?.payload.frequency.toFixed(3)} Гц`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="collective" stroke="var(--color-collective)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  {selected && (
+                    <Line dataKey="agent" stroke="var(--color-agent)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  )}
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Спектрограмма средней активности</h4>
+              <canvas
+                ref={canvasRef}
+                width={SPECTROGRAM_WIDTH}
+                height={SPECTROGRAM_HEIGHT}
+                className="w-full h-auto border border-border rounded-lg bg-background/50"
+              />
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>−{DYNAMIC_RANGE * 10} дБ</span>
+                <div className="h-2 flex-1 rounded" style={{ background: HEAT_GRADIENT }} />
+                <span>0 дБ</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                По горизонтали — время 0…{horizon}s, по вертикали — частота 0…{(result.sampleRate / 2).toFixed(1)} Гц.
+                На доминирующей частоте {onDominant} из {result.agents.length} агентов.
+              </p>
+            </div>
+          </>
+        )}
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>📈 <strong>Активность агента:</strong> доля крупнейшего пула гипотез, пульсирующая с фазой осциллятора θ_i</p>
+          <p>🔴 <strong>Пики:</strong> резонансные частоты; синхронные агенты собирают мощность в один пик на частоте общего ритма</p>
+          <p className="text-xs">Пунктир — собственная частота ω₀/2π. Разрешение по частоте — 1/окно, так что длинное окно различает близкие пики ценой временного разрешения.</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpectrumPanel;
@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Grid3x3 } from 'lucide-react';
+import JobError from './JobError';
+import { useBackgroundJob } from '@/hooks/use-background-job';
+import { OUTPUT_LABELS, PARAMETER_LABELS } from '@/lib/parameter-labels';
+import { heatColor } from '@/lib/color-scale';
+import {
+  EXPLORABLE_PARAMETERS,
+  NumericParameter,
+  PARAMETER_RANGES,
+  SENSITIVITY_OUTPUTS,
+  SensitivityOutput,
+  SimulationParameters,
+  SweepAxis,
+  SweepResult,
+  contourSegments,
+  sweepGrid
+} from '@/engine';
+import { runJobInWorker } from '@/engine/worker';
+
+interface SweepPanelProps {
+  parameters: SimulationParameters;
+  onApply: (patch: Partial<SimulationParameters>) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 500;
+const PADDING = { left: 60, right: 90, top: 20, bottom: 45 };
+
+const formatValue = (value: number) =>
+  Math.abs(value) >= 1e4 || (Math.abs(value) < 1e-2 && value !== 0) ? value.toExponential(2) : value.toFixed(2);
+
+const defaultAxis = (field: NumericParameter): SweepAxis => {
+  const [min, max] = PARAMETER_RANGES[field] ?? [0, 1];
+  return { field, min, max, steps: 20 };
+};
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ parameters, onApply }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sweep = useBackgroundJob<SweepResult>();
+  const [xAxis, setXAxis] = useState<SweepAxis>(defaultAxis('alpha'));
+  const [yAxis, setYAxis] = useState<SweepAxis>(defaultAxis('delta'));
+  const [resolution, setResolution] = useState(20);
+  const [horizon, setHorizon] = useState(30);
+  const [output, setOutput] = useState<SensitivityOutput>('asiTime');
+  const [hovered, setHovered] = useState<{ row: number; col: number } | null>(null);
+
+  const result = sweep.result;
+  // Intelligence spans many orders of magnitude, so colour it on a log scale
+  const logScale = output === 'finalIntelligence';
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!result) return;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const cols = result.xValues.length;
+    const rows = result.yValues.length;
+    const cellWidth = plotWidth / cols;
+    const cellHeight = plotHeight / rows;
+
+    const grid = sweepGrid(result, output).map(row => row.map(v => (logScale ? Math.log10(Math.max(v, 1e-12)) : v)));
+    const flat = grid.flat().filter(Number.isFinite);
+    const min = Math.min(...flat);
+    const max = Math.max(...flat);
+    const normalise = (v: number) => (max > min ? (v - min) / (max - min) : 0.5);
+
+    // Row 0 is the lowest y value, drawn at the bottom
+    const cellX = (col: number) => PADDING.left + col * cellWidth;
+    const cellY = (row: number) => PADDING.top + (rows - 1 - row) * cellHeight;
+
+    grid.forEach((row, r) => {
+      row.forEach((value, c) => {
+        ctx.fillStyle = heatColor(normalise(value));
+        ctx.fillRect(cellX(c), cellY(r), Math.ceil(cellWidth), Math.ceil(cellHeight));
+      });
+    });
+
+    // Contours are traced through cell centres
+    const toCanvas = (gx: number, gy: number): [number, number] => [
+      cellX(gx) + cellWidth / 2,
+      cellY(gy) + cellHeight / 2
+    ];
+    const drawSegments = (field: number[][], level: number, style: string, width: number, dash: number[]) => {
+      ctx.strokeStyle = style;
+      ctx.lineWidth = width;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      for (const segment of contourSegments(field, level)) {
+        ctx.moveTo(...toCanvas(segment.x1, segment.y1));
+        ctx.lineTo(...toCanvas(segment.x2, segment.y2));
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+
+    const asiTimes = sweepGrid(result, 'asiTime');
+    [0.25, 0.5, 0.75].forEach(fraction => {
+      drawSegments(asiTimes, result.horizon * fraction, 'rgba(255, 255, 255, 0.5)', 1, [4, 4]);
+    });
+    drawSegments(result.cells.map(row => row.map(cell => (cell.reached ? 1 : 0))), 0.5, 'rgba(255, 255, 255, 0.95)', 2.5, []);
+
+    if (hovered) {
+      ctx.strokeStyle = 'rgba(255, 255, 150, 1)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(cellX(hovered.col), cellY(hovered.row), cellWidth, cellHeight);
+    }
+
+    // Axes
+    ctx.fillStyle = 'rgba(220, 220, 220, 0.9)';
+    ctx.font = '12px monospace';
+    ctx.textAlign = 'center';
+    [0, Math.floor((cols - 1) / 2), cols - 1].forEach(col => {
+      ctx.fillText(formatValue(result.xValues[col]), cellX(col) + cellWidth / 2, HEIGHT - PADDING.bottom + 16);
+    });
+    ctx.fillText(PARAMETER_LABELS[result.x.field] ?? result.x.field, PADDING.left + plotWidth / 2, HEIGHT - 8);
+    ctx.textAlign = 'right';
+    [0, Math.floor((rows - 1) / 2), rows - 1].forEach(row => {
+      ctx.fillText(formatValue(result.yValues[row]), PADDING.left - 6, cellY(row) + cellHeight / 2 + 4);
+    });
+    ctx.save();
+    ctx.translate(14, PADDING.top + plotHeight / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.fillText(PARAMETER_LABELS[result.y.field] ?? result.y.field, 0, 0);
+    ctx.restore();
+
+    // Colour bar
+    const barX = WIDTH - PADDING.right + 20;
+    for (let i = 0; i < plotHeight; i++) {
+      ctx.fillStyle = heatColor(1 - i / plotHeight);
+      ctx.fillRect(barX, PADDING.top + i, 16, 1);
+    }
+    ctx.textAlign = 'left';
+    const label = (v: number) => formatValue(logScale ? Math.pow(10, v) : v);
+    ctx.fillText(label(max), barX + 20, PADDING.top + 10);
+    ctx.fillText(label(min), barX + 20, PADDING.top + plotHeight);
+  }, [result, output, logScale, hovered]);
+
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!result || !canvasRef.current) return null;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * (WIDTH / rect.width);
+    const y = (event.clientY - rect.top) * (HEIGHT / rect.height);
+    const cols = result.xValues.length;
+    const rows = result.yValues.length;
+    const col = Math.floor((x - PADDING.left) / ((WIDTH - PADDING.left - PADDING.right) / cols));
+    const rowFromTop = Math.floor((y - PADDING.top) / ((HEIGHT - PADDING.top - PADDING.bottom) / rows));
+    const row = rows - 1 - rowFromTop;
+    if (col < 0 || col >= cols || row < 0 || row >= rows) return null;
+    return { row, col };
+  };
+
+  const runGrid = () => {
+    const x = { ...xAxis, steps: resolution };
+    const y = { ...yAxis, steps: resolution };
+    sweep.run(job => runJobInWorker('sweep', parameters, { x, y, horizon }, job));
+  };
+
+  const hoveredCell = result && hovered ? result.cells[hovered.row][hovered.col] : null;
+
+  const axisControls = (axis: SweepAxis, setAxis: (axis: SweepAxis) => void, name: string) => (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-muted-foreground">{name}</label>
+      <Select value={axis.field} onValueChange={(value) => setAxis(defaultAxis(value as NumericParameter))}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EXPLORABLE_PARAMETERS.map(field => (
+            <SelectItem key={field} value={field}>{PARAMETER_LABELS[field] ?? field}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          value={axis.min}
+          onChange={(event) => setAxis({ ...axis, min: Number(event.target.value) })}
+          className="font-mono"
+        />
+        <Input
+          type="number"
+          value={axis.max}
+          onChange={(event) => setAxis({ ...axis, max: Number(event.target.value) })}
+          className="font-mono"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="border-neural bg-gradient-to-br from-card to-neural/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-neural" />
+          Фазовая диаграмма параметров
+          <div className="ml-auto text-sm text-muted-foreground">
+            {resolution} × {resolution} = {resolution * resolution} прогонов
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          {axisControls(xAxis, setXAxis, 'Ось X')}
+          {axisControls(yAxis, setYAxis, 'Ось Y')}
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Разрешение: {resolution}</label>
+              <Slider
+                value={[resolution]}
+                onValueChange={([value]) => setResolution(value)}
+                min={5}
+                max={50}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Горизонт: {horizon}s</label>
+              <Slider
+                value={[horizon]}
+                onValueChange={([value]) => setHorizon(value)}
+                min={5}
+                max={120}
+                step={5}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">Метрика</label>
+            <Select value={output} onValueChange={(value) => setOutput(value as SensitivityOutput)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SENSITIVITY_OUTPUTS.map(id => (
+                  <SelectItem key={id} value={id}>{OUTPUT_LABELS[id]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {sweep.isRunning ? (
+              <Button variant="outline" onClick={sweep.cancel} className="w-full">Отмена</Button>
+            ) : (
+              <Button onClick={runGrid} disabled={xAxis.field === yAxis.field} className="w-full bg-gradient-neural">
+                Построить
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {sweep.isRunning && <Progress value={sweep.progress} />}
+        <JobError error={sweep.error} />
+
+        <canvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onMouseMove={(event) => setHovered(cellAt(event))}
+          onMouseLeave={() => setHovered(null)}
+          onClick={(event) => {
+            const cell = cellAt(event);
+            if (!cell || !result) return;
+            onApply({
+              [result.x.field]: result.xValues[cell.col],
+              [result.y.field]: result.yValues[cell.row]
+            });
+          }}
+          className="w-full h-auto border border-border rounded-lg bg-background/50 cursor-crosshair"
+        />
+
+        <div className="text-sm text-muted-foreground space-y-1">
+          {hoveredCell && result ? (
+            <p className="font-mono text-foreground">
+              {PARAMETER_LABELS[result.x.field]} = {formatValue(result.xValues[hovered.col])},{' '}
+              {PARAMETER_LABELS[result.y.field]} = {formatValue(result.yValues[hovered.row])} →{' '}
+              {OUTPUT_LABELS[output]}: {formatValue(hoveredCell.outputs[output])}
+              {hoveredCell.reached ? ' (ASI достигнут)' : ' (ASI не достигнут)'}
+            </p>
+          ) : (
+            <p>Наведите на ячейку для значений, щелчок загружает параметры в симулятор</p>
+          )}
+          <p>⚪ <strong>Сплошная линия:</strong> граница достижения ASI за горизонт</p>
+          <p>┄ <strong>Пунктир:</strong> изолинии времени ASI на 25%, 50% и 75% горизонта</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SweepPanel;
@@ -0,0 +1,95 @@
+import { SimulationMetrics, SimulationParameters, SimulationState } from './types';
+import { asiProgressFor, DEFAULT_PARAMETERS } from './model';
+import { advanceGrowth } from './growth';
+import { applyNoise, NEUTRAL_NOISE, stepNoise } from './noise';
+import { deriveSeed, Random } from './random';
+import { agentEthics, appendEvents, applyInterventions, initialEthics, stepEthics } from './ethics';
+import { applyGovernors, initialGovernorState } from './governors';
+import { createNetwork, emergentIntelligence, syncNetwork, stepNetwork, totalHypotheses } from './agents';
+import { lockedOscillators, orderParameter } from './kuramoto';
+
+export const initialMetrics = (params: SimulationParameters): SimulationMetrics => ({
+  intelligence: params.initialIntelligence,
+  hypotheses: params.initialHypotheses,
+  resonancePoints: 0,
+  resonance: 0,
+  ethicalScore: initialEthics().score,
+  growthRate: 0,
+  emergentIntelligence: params.initialIntelligence,
+  complexity: 'O(n²)',
+  asiProgress: 0
+});
+
+// Unbounded regimes overflow eventually; keep the readouts and charts numeric
+const finite = (value: number) => (Number.isFinite(value) ? value : Number.MAX_VALUE);
+
+/**
+ * Advances the growth model. The engine holds no state of its own: every call
+ * receives the previous state and returns a new one, so the same instance can
+ * be shared between React components, workers and scripts.
+ */
+export class SimulationEngine {
+  reset(params: SimulationParameters = DEFAULT_PARAMETERS): SimulationState {
+    return {
+      time: 0,
+      rngState: deriveSeed(params.seed, 'engine'),
+      noise: { ...NEUTRAL_NOISE },
+      growth: { intelligence: params.initialIntelligence, hypotheses: params.initialHypotheses },
+      ethics: initialEthics(),
+      events: [],
+      governor: initialGovernorState(),
+      network: createNetwork(params, new Random(deriveSeed(params.seed, 'network'))),
+      metrics: initialMetrics(params)
+    };
+  }
+
+  // Applies structural parameter changes (agent count, topology) without advancing time
+  configure(state: SimulationState, params: SimulationParameters): SimulationState {
+    const rng = new Random(state.rngState);
+    const network = syncNetwork(state.network, params, rng);
+    return network === state.network ? state : { ...state, rngState: rng.state, network };
+  }
+
+  step(state: SimulationState, params: SimulationParameters, dt: number): SimulationState {
+    const t = state.time + dt;
+    const rng = new Random(state.rngState);
+    const noise = stepNoise(state.noise, params, dt, rng);
+    const governed = applyGovernors(state, applyNoise(params, noise));
+    const effective = applyInterventions(governed.params, state.ethics);
+    const closedForm = state.ethics.interventionCount === 0 && params.governors.length === 0;
+    const synced = syncNetwork(state.network, params, rng);
+    const quarantined = agentEthics(state.ethics, synced.agents).map(agent => agent.quarantined);
+    const network = stepNetwork(synced, effective, state.time, dt, quarantined);
+    const emergent = emergentIntelligence(network);
+    const { r } = orderParameter(network.agents.map(agent => agent.phase));
+    const growth = params.growthModel === 'agent-based'
+      ? { intelligence: emergent, hypotheses: totalHypotheses(network) }
+      : advanceGrowth(state.growth, state.time, dt, effective, closedForm);
+    const { intelligence } = growth;
+    const logGrowth = Math.max(0, Math.log(intelligence / state.growth.intelligence) / dt);
+    const growthRate = Number.isFinite(logGrowth) ? logGrowth : 0;
+    const { ethics, events } = stepEthics(state.ethics, params, growthRate, t, dt, rng);
+
+    return {
+      time: t,
+      rngState: rng.state,
+      noise,
+      growth,
+      ethics,
+      events: appendEvents(state.events, [...governed.events, ...events]),
+      governor: governed.governor,
+      network,
+      metrics: {
+        intelligence: finite(intelligence),
+        hypotheses: finite(growth.hypotheses),
+        resonancePoints: lockedOscillators(network.agents, effective, r),
+        resonance: r,
+        ethicalScore: ethics.score,
+        growthRate,
+        emergentIntelligence: finite(emergent),
+        complexity: 'O(n²)',
+        asiProgress: asiProgressFor(intelligence)
+      }
+    };
+  }
+}
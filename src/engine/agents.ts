@@ -0,0 +1,394 @@
+import { Agent, AgentArchetype, NetworkEdit, NetworkState, SimulationParameters } from './types';
+import { Derivative, integrate } from './integrators';
+import { growthDerivative } from './growth';
+import { deriveSeed, Random } from './random';
+import { generateTopology, sameTopology } from './topology';
+import { resolveCoupling } from './coupling';
+import { ARCHETYPES, assignArchetypes, drawArchetype, sameMix } from './archetypes';
+import { naturalFrequency, stepPhases } from './kuramoto';
+import { Point } from './layout';
+
+// Learning rates are drawn uniformly from [1 - spread, 1 + spread]
+export const LEARNING_RATE_SPREAD = 0.2;
+
+const createAgent = (id: number, archetype: AgentArchetype, params: SimulationParameters, rng: Random): Agent => ({
+  id,
+  archetype,
+  intelligence: params.initialIntelligence / params.agentCount,
+  hypotheses: params.initialHypotheses / params.agentCount,
+  learningRate: 1 + LEARNING_RATE_SPREAD * (2 * rng.next() - 1),
+  frequencyOffset: rng.normal(),
+  phase: 2 * Math.PI * rng.next(),
+  connections: []
+});
+
+const couplingSource = ({ coupling, couplingPreset, couplingMatrix }: SimulationParameters): NetworkState['couplingSource'] => ({
+  coupling,
+  couplingPreset,
+  couplingMatrix
+});
+
+const sameCoupling = (a: NetworkState['couplingSource'], b: NetworkState['couplingSource']) =>
+  a.coupling === b.coupling && a.couplingPreset === b.couplingPreset && a.couplingMatrix === b.couplingMatrix;
+
+// Net change in agent count from a sequence of edits
+export const editedAgentChange = (edits: NetworkEdit[]) =>
+  edits.reduce((change, edit) => change + (edit.kind === 'add-agent' ? 1 : edit.kind === 'remove-agent' ? -1 : 0), 0);
+
+// Edits naming agents that do not exist are skipped, so a log stays replayable on any network
+const applyEdit = (agents: Agent[], edit: NetworkEdit, params: SimulationParameters, rng: Random): Agent[] => {
+  const n = agents.length;
+  const exists = (agent: number) => Number.isInteger(agent) && agent >= 0 && agent < n;
+  switch (edit.kind) {
+    case 'add-agent': {
+      const connections = [...new Set(edit.connections.filter(exists))];
+      return [
+        ...agents.map(agent => (connections.includes(agent.id) ? { ...agent, connections: [...agent.connections, n] } : agent)),
+        { ...createAgent(n, drawArchetype(params.populationMix, rng), params, rng), connections, position: edit.position }
+      ];
+    }
+    case 'remove-agent': {
+      if (!exists(edit.agent)) return agents;
+      const reindex = (j: number) => (j > edit.agent ? j - 1 : j);
+      return agents
+        .filter(agent => agent.id !== edit.agent)
+        .map(agent => ({
+          ...agent,
+          id: reindex(agent.id),
+          connections: agent.connections.filter(j => j !== edit.agent).map(reindex)
+        }));
+    }
+    case 'toggle-edge': {
+      const { from, to } = edit;
+      if (!exists(from) || !exists(to) || from === to) return agents;
+      const linked = agents[from].connections.includes(to);
+      const toggle = (agent: Agent, other: number): Agent => ({
+        ...agent,
+        connections: linked ? agent.connections.filter(j => j !== other) : [...agent.connections, other]
+      });
+      return agents.map(agent => (agent.id === from ? toggle(agent, to) : agent.id === to ? toggle(agent, from) : agent));
+    }
+    case 'set-archetype':
+      if (!exists(edit.agent)) return agents;
+      return agents.map(agent => (agent.id === edit.agent ? { ...agent, archetype: edit.archetype } : agent));
+    case 'move-agent':
+      if (!exists(edit.agent)) return agents;
+      return agents.map(agent => (agent.id === edit.agent ? { ...agent, position: edit.position } : agent));
+  }
+};
+
+const samePosition = (a: Point | undefined, b: Point | undefined) => a?.x === b?.x && a?.y === b?.y;
+
+const applyEdits = (agents: Agent[], edits: NetworkEdit[], params: SimulationParameters, rng: Random) =>
+  edits.reduce((current, edit) => applyEdit(current, edit, params, rng), agents);
+
+const sameEdit = (a: NetworkEdit, b: NetworkEdit) => {
+  if (a.kind === 'add-agent' && b.kind === 'add-agent') {
+    return (
+      a.connections.length === b.connections.length &&
+      a.connections.every((j, i) => j === b.connections[i]) &&
+      samePosition(a.position, b.position)
+    );
+  }
+  if (a.kind === 'remove-agent' && b.kind === 'remove-agent') return a.agent === b.agent;
+  if (a.kind === 'toggle-edge' && b.kind === 'toggle-edge') return a.from === b.from && a.to === b.to;
+  if (a.kind === 'set-archetype' && b.kind === 'set-archetype') return a.agent === b.agent && a.archetype === b.archetype;
+  if (a.kind === 'move-agent' && b.kind === 'move-agent') return a.agent === b.agent && samePosition(a.position, b.position);
+  return false;
+};
+
+// Edits appended since the network was built; null when the log was rewritten rather than extended
+const appendedEdits = (applied: NetworkEdit[], requested: NetworkEdit[]) =>
+  requested.length >= applied.length && applied.every((edit, i) => sameEdit(edit, requested[i]))
+    ? requested.slice(applied.length)
+    : null;
+
+// The topology stream is separate from the engine's, so a seed always yields the same graph
+const connect = (agents: Agent[], params: SimulationParameters, rng: Random): NetworkState => {
+  const connections = generateTopology(agents.length, params.topology, new Random(deriveSeed(params.seed, 'topology')));
+  const edited = applyEdits(
+    agents.map((agent, i) => ({ ...agent, connections: connections[i] })),
+    params.networkEdits,
+    params,
+    rng
+  );
+  return {
+    agents: edited,
+    coupling: resolveCoupling(params, edited.length),
+    topology: params.topology,
+    agentCount: params.agentCount,
+    edits: params.networkEdits,
+    populationMix: params.populationMix,
+    couplingSource: couplingSource(params)
+  };
+};
+
+// The generated graph has as many agents as the edits leave the requested count at
+const baseAgentCount = (params: SimulationParameters) => Math.max(0, params.agentCount - editedAgentChange(params.networkEdits));
+
+// Agents split I₀ and Q₀ evenly, so with identical learning rates and no exchange ΣI_i follows the global model
+export const createNetwork = (params: SimulationParameters, rng: Random): NetworkState => {
+  const archetypes = assignArchetypes(baseAgentCount(params), params.populationMix, params.seed);
+  return connect(archetypes.map((archetype, id) => createAgent(id, archetype, params, rng)), params, rng);
+};
+
+/**
+ * Keeps existing agents when the agent count, topology, population mix,
+ * coupling or edits change mid-run. Appended edits are applied in place;
+ * anything else regenerates the graph and reassigns archetypes, with
+ * newcomers starting from the initial split.
+ */
+export const syncNetwork = (network: NetworkState, params: SimulationParameters, rng: Random): NetworkState => {
+  const pending = appendedEdits(network.edits, params.networkEdits);
+  if (
+    pending !== null &&
+    sameTopology(network.topology, params.topology) &&
+    sameMix(network.populationMix, params.populationMix) &&
+    params.agentCount - network.agentCount === editedAgentChange(pending)
+  ) {
+    if (pending.length === 0 && sameCoupling(network.couplingSource, couplingSource(params))) return network;
+    const agents = applyEdits(network.agents, pending, params, rng);
+    return {
+      ...network,
+      agents,
+      coupling: resolveCoupling(params, agents.length),
+      agentCount: params.agentCount,
+      edits: params.networkEdits,
+      couplingSource: couplingSource(params)
+    };
+  }
+  const archetypes = assignArchetypes(baseAgentCount(params), params.populationMix, params.seed);
+  // Hand placements belong to the edits, which are replayed onto the new graph
+  const kept = network.agents
+    .slice(0, archetypes.length)
+    .map((agent, id) => ({ ...agent, id, archetype: archetypes[id], position: undefined }));
+  const added = archetypes.slice(kept.length).map((archetype, i) => createAgent(kept.length + i, archetype, params, rng));
+  return connect([...kept, ...added], params, rng);
+};
+
+const removeIndex = <T>(items: T[], index: number) => items.filter((_, i) => i !== index);
+
+/**
+ * Parameter patch recording one edit. The agent count follows the edit, and
+ * a hand-edited γ matrix gains or loses the matching row and column so it
+ * stays in force.
+ */
+export const networkEditPatch = (
+  params: SimulationParameters,
+  edit: NetworkEdit
+): Pick<SimulationParameters, 'agentCount' | 'networkEdits' | 'couplingMatrix'> => {
+  const { couplingMatrix: matrix, coupling } = params;
+  let couplingMatrix = matrix;
+  if (matrix && edit.kind === 'remove-agent') {
+    couplingMatrix = removeIndex(matrix, edit.agent).map(row => removeIndex(row, edit.agent));
+  } else if (matrix && edit.kind === 'add-agent') {
+    couplingMatrix = [...matrix.map(row => [...row, coupling]), [...new Array<number>(matrix.length).fill(coupling), 0]];
+  }
+  return {
+    agentCount: params.agentCount + editedAgentChange([edit]),
+    networkEdits: [...params.networkEdits, edit],
+    couplingMatrix
+  };
+};
+
+// Agents an edit names, in a fixed order so they can be substituted back
+const editTargets = (edit: NetworkEdit): number[] => {
+  switch (edit.kind) {
+    case 'add-agent': return edit.connections;
+    case 'remove-agent': return [edit.agent];
+    case 'toggle-edge': return [edit.from, edit.to];
+    case 'set-archetype': return [edit.agent];
+    case 'move-agent': return [edit.agent];
+  }
+};
+
+const withTargets = (edit: NetworkEdit, targets: number[]): NetworkEdit => {
+  switch (edit.kind) {
+    case 'add-agent': return { ...edit, connections: targets };
+    case 'remove-agent': return { ...edit, agent: targets[0] };
+    case 'toggle-edge': return { ...edit, from: targets[0], to: targets[1] };
+    case 'set-archetype': return { ...edit, agent: targets[0] };
+    case 'move-agent': return { ...edit, agent: targets[0] };
+  }
+};
+
+interface NamedEdit {
+  edit: NetworkEdit;
+  // Stable identities of the named agents: generated agents by index, added ones by negative serial; null if missing
+  targets: (number | null)[];
+}
+
+/**
+ * Replays edits over `base` generated agents by identity. `resolve` sees the
+ * agents as they stand before each edit and returns the edit to apply in
+ * their index space, or null to skip it. Returns the final agents' identities.
+ */
+const replayIdentities = (
+  base: number,
+  edits: NetworkEdit[],
+  resolve: (agents: number[], edit: NetworkEdit, i: number) => NetworkEdit | null
+): number[] => {
+  let agents = Array.from({ length: base }, (_, i) => i);
+  let added = 0;
+  edits.forEach((edit, i) => {
+    const applied = resolve(agents, edit, i);
+    if (applied?.kind === 'add-agent') agents = [...agents, -++added];
+    if (applied?.kind === 'remove-agent' && applied.agent >= 0 && applied.agent < agents.length) {
+      agents = removeIndex(agents, applied.agent);
+    }
+  });
+  return agents;
+};
+
+// γ between agents present before and after keeps its value; newcomers link at the uniform coupling
+const carryCouplingMatrix = (matrix: number[][], from: number[], to: number[], coupling: number) => {
+  const rows = to.map(id => from.indexOf(id));
+  return rows.map((a, i) => rows.map((b, j) => (i === j ? 0 : a >= 0 && b >= 0 ? matrix[a][b] : coupling)));
+};
+
+/**
+ * Parameter patch resizing the generated graph so the network has
+ * `agentCount` agents, keeping the hand edits. Each edit follows the agents
+ * it named rather than their indices, and edits naming agents the resized
+ * graph no longer has are dropped; the rest replay over the new graph. A
+ * hand-edited γ matrix follows the same agents, so it stays in force.
+ */
+export const agentCountPatch = (
+  params: SimulationParameters,
+  agentCount: number
+): Pick<SimulationParameters, 'agentCount' | 'networkEdits' | 'couplingMatrix'> => {
+  let named: NamedEdit[] = [];
+  const before = replayIdentities(baseAgentCount(params), params.networkEdits, (agents, edit) => {
+    named.push({ edit, targets: editTargets(edit).map(j => agents[j] ?? null) });
+    return edit;
+  });
+
+  // Dropping a removal changes the generated size the rest replay over, so settle on a log that holds at its own size
+  for (;;) {
+    const base = Math.max(0, agentCount - editedAgentChange(named.map(({ edit }) => edit)));
+    const kept: NamedEdit[] = [];
+    const edits: NetworkEdit[] = [];
+    const after = replayIdentities(base, named.map(({ edit }) => edit), (agents, edit, i) => {
+      const indices = named[i].targets.map(id => (id === null ? -1 : agents.indexOf(id)));
+      if (edit.kind !== 'add-agent' && indices.some(j => j < 0)) return null;
+      const applied = withTargets(edit, edit.kind === 'add-agent' ? indices.filter(j => j >= 0) : indices);
+      kept.push(named[i]);
+      edits.push(applied);
+      return applied;
+    });
+    if (kept.length === named.length) {
+      const { couplingMatrix: matrix, coupling } = params;
+      return {
+        agentCount: base + editedAgentChange(edits),
+        networkEdits: edits,
+        // A matrix that no longer matched the network was already out of force
+        couplingMatrix: matrix?.length === before.length ? carryCouplingMatrix(matrix, before, after, coupling) : null
+      };
+    }
+    named = kept;
+  }
+};
+
+/**
+ * Emergent intelligence I_эм = ΣI_i + Σγ_ij·I_i·I_j, the second sum running
+ * once over every connected pair.
+ */
+export const emergentIntelligence = ({ agents, coupling }: NetworkState): number => {
+  let total = 0;
+  for (const agent of agents) {
+    total += agent.intelligence;
+    for (const j of agent.connections) {
+      if (j > agent.id) total += coupling[agent.id][j] * agent.intelligence * agents[j].intelligence;
+    }
+  }
+  return total;
+};
+
+export const totalHypotheses = ({ agents }: NetworkState) =>
+  agents.reduce((sum, agent) => sum + agent.hypotheses, 0);
+
+// Activity: share of the richest hypothesis pool, pulsing with the agent's oscillator phase
+export const networkActivity = ({ agents }: NetworkState): number[] => {
+  const maxHypotheses = Math.max(...agents.map(agent => agent.hypotheses), Number.MIN_VALUE);
+  return agents.map(agent => (agent.hypotheses / maxHypotheses) * (0.6 + 0.4 * Math.sin(agent.phase)));
+};
+
+/**
+ * Right-hand side for all agents at once, y = [I_1..I_n, Q_1..Q_n]. Each agent
+ * runs the global growth system with α and δ scaled by its learning rate and
+ * archetype, K and R split evenly, and learns from its neighbours:
+ *   dQ_i/dt += s·λ_i·ρ_i·mean_j h_ij,   h_ij = σ_j·max(0, Q_j - Q_i) for σ_j ≥ 0
+ *                                        h_ij = σ_j·Q_i                 for σ_j < 0
+ * with receptivity ρ and sharing σ from the archetypes. Misleading neighbours
+ * erode a share of the pool rather than a gap, so it stays positive.
+ * Quarantined agents neither share nor receive hypotheses.
+ */
+const networkDerivative = (agents: Agent[], params: SimulationParameters, quarantined: boolean[]): Derivative => {
+  const n = agents.length;
+  // One scratch parameter set shared by all agents; only α and δ change between them
+  const scaled = { ...params, carryingCapacity: params.carryingCapacity / n, computeBudget: params.computeBudget / n };
+  const local = growthDerivative(scaled);
+
+  const alpha = agents.map(agent => params.alpha * agent.learningRate * ARCHETYPES[agent.archetype].alpha);
+  const delta = agents.map(agent => params.delta * agent.learningRate * ARCHETYPES[agent.archetype].delta);
+  const uptake = agents.map(agent => params.exchangeRate * agent.learningRate * ARCHETYPES[agent.archetype].receptivity);
+  const sharing = agents.map(agent => ARCHETYPES[agent.archetype].sharing);
+  const peers = agents.map((agent, i) => (quarantined[i] ? [] : agent.connections.filter(j => !quarantined[j])));
+
+  return (t, y) => {
+    const dy = new Array<number>(2 * n);
+    for (let i = 0; i < n; i++) {
+      scaled.alpha = alpha[i];
+      scaled.delta = delta[i];
+      const [intelligenceRate, hypothesesRate] = local(t, [y[i], y[n + i]]);
+      let exchange = 0;
+      for (const j of peers[i]) {
+        exchange += sharing[j] >= 0 ? sharing[j] * Math.max(0, y[n + j] - y[n + i]) : sharing[j] * y[n + i];
+      }
+      dy[i] = intelligenceRate;
+      dy[n + i] = hypothesesRate + (peers[i].length > 0 ? uptake[i] * exchange / peers[i].length : 0);
+    }
+    return dy;
+  };
+};
+
+export const stepNetwork = (
+  network: NetworkState,
+  params: SimulationParameters,
+  t: number,
+  dt: number,
+  quarantined: boolean[]
+): NetworkState => {
+  const { agents } = network;
+  const n = agents.length;
+  const y = integrate(
+    params.solver,
+    networkDerivative(agents, params, quarantined),
+    t,
+    [...agents.map(agent => agent.intelligence), ...agents.map(agent => agent.hypotheses)],
+    dt
+  );
+  const phases = stepPhases(
+    agents.map(agent => agent.phase),
+    agents.map(agent => naturalFrequency(agent, params)),
+    params.resonanceStrength,
+    params.solver,
+    t,
+    dt
+  );
+  // Written out rather than spread: this runs for every agent on every step of every headless run
+  return {
+    ...network,
+    agents: agents.map(({ id, archetype, learningRate, frequencyOffset, connections, position }, i) => ({
+      id,
+      archetype,
+      intelligence: y[i],
+      hypotheses: y[n + i],
+      learningRate,
+      frequencyOffset,
+      phase: phases[i],
+      connections,
+      position
+    }))
+  };
+};
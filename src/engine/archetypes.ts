@@ -0,0 +1,71 @@
+import { AgentArchetype, PopulationMix } from './types';
+import { deriveSeed, Random } from './random';
+
+export interface ArchetypeDefinition {
+  // Multipliers on α and δ, on top of the agent's learning rate
+  alpha: number;
+  delta: number;
+  // Weight on the hypotheses this agent offers its neighbours; negative values mislead them
+  sharing: number;
+  // Multiplier on how much this agent takes from its neighbours
+  receptivity: number;
+  // Leaning of the agent's own ethical judgement relative to the shared score
+  ethicsBias: number;
+}
+
+export const ARCHETYPES: Record<AgentArchetype, ArchetypeDefinition> = {
+  // Self-improves fast but listens little and is the first to cut corners
+  explorer: { alpha: 1.5, delta: 0.8, sharing: 1, receptivity: 0.5, ethicsBias: -0.05 },
+  // Slow to self-improve, passes on only what it has checked, strict in its judgement
+  verifier: { alpha: 0.6, delta: 1.2, sharing: 0.8, receptivity: 1, ethicsBias: 0.1 },
+  // The reference agent: the global model's rates, taking and passing on hypotheses at the nominal rate
+  integrator: { alpha: 1, delta: 1, sharing: 1, receptivity: 1, ethicsBias: 0 },
+  // As capable as an integrator, but feeds neighbours misleading hypotheses and judges leniently
+  adversarial: { alpha: 1, delta: 1, sharing: -0.5, receptivity: 0.5, ethicsBias: -0.3 }
+};
+
+export const ARCHETYPE_IDS = Object.keys(ARCHETYPES) as AgentArchetype[];
+
+// An all-integrator population behaves like the homogeneous network
+export const DEFAULT_POPULATION_MIX: PopulationMix = { explorer: 0, verifier: 0, integrator: 1, adversarial: 0 };
+
+const mixWeights = (mix: PopulationMix) => {
+  const weights = ARCHETYPE_IDS.map(id => Math.max(0, mix[id]));
+  const total = weights.reduce((a, b) => a + b, 0);
+  // An all-zero mix falls back to the baseline archetype
+  return total > 0 ? weights.map(w => w / total) : ARCHETYPE_IDS.map(id => (id === 'integrator' ? 1 : 0));
+};
+
+export const sameMix = (a: PopulationMix, b: PopulationMix) => ARCHETYPE_IDS.every(id => a[id] === b[id]);
+
+/**
+ * Archetypes for n agents: counts follow the mix by largest remainder, and a
+ * seeded shuffle spreads the types over the agent ordering so they are not
+ * clustered along rings and lattices.
+ */
+export const assignArchetypes = (n: number, mix: PopulationMix, seed: number): AgentArchetype[] => {
+  const quotas = mixWeights(mix).map(w => w * n);
+  const counts = quotas.map(Math.floor);
+  const byRemainder = quotas.map((q, i) => i).sort((a, b) => quotas[b] - counts[b] - (quotas[a] - counts[a]) || a - b);
+  const missing = n - counts.reduce((a, b) => a + b, 0);
+  for (let k = 0; k < missing; k++) counts[byRemainder[k]]++;
+  const assigned = counts.reduce((a, b) => a + b, 0);
+  if (assigned !== n) throw new Error(`Archetype counts sum to ${assigned}, expected ${n}`);
+  const archetypes = ARCHETYPE_IDS.flatMap((id, i) => new Array<AgentArchetype>(counts[i]).fill(id));
+  return new Random(deriveSeed(seed, 'archetypes')).shuffle(archetypes);
+};
+
+// Archetype of a single newcomer, drawn in proportion to the mix
+export const drawArchetype = (mix: PopulationMix, rng: Random): AgentArchetype => {
+  const weights = mixWeights(mix);
+  let u = rng.next();
+  let last = 0;
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i] === 0) continue;
+    last = i;
+    u -= weights[i];
+    if (u < 0) return ARCHETYPE_IDS[i];
+  }
+  // Rounding can leave u a hair above zero after the last weight
+  return ARCHETYPE_IDS[last];
+};
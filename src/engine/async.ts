@@ -0,0 +1,10 @@
+export interface ProgressOptions {
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const throwIfAborted = (signal: AbortSignal | undefined, label: string) => {
+  if (signal?.aborted) throw new DOMException(`${label} cancelled`, 'AbortError');
+};
@@ -0,0 +1,54 @@
+export interface ContourSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+type Point = [number, number];
+
+/**
+ * Marching squares over grid[row][col]. Segment coordinates are fractional
+ * grid indices (x = column, y = row), so callers map them to their own axes.
+ * Saddle cells are disambiguated with the cell-centre average.
+ */
+export const contourSegments = (grid: number[][], level: number): ContourSegment[] => {
+  const segments: ContourSegment[] = [];
+  const crossing = (x1: number, y1: number, v1: number, x2: number, y2: number, v2: number): Point => {
+    const t = v1 === v2 ? 0.5 : (level - v1) / (v2 - v1);
+    return [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+  };
+  const push = ([x1, y1]: Point, [x2, y2]: Point) => segments.push({ x1, y1, x2, y2 });
+
+  for (let row = 0; row < grid.length - 1; row++) {
+    for (let col = 0; col < grid[row].length - 1; col++) {
+      const a = grid[row][col];
+      const b = grid[row][col + 1];
+      const c = grid[row + 1][col + 1];
+      const d = grid[row + 1][col];
+      if (![a, b, c, d].every(Number.isFinite)) continue;
+
+      const above = [a, b, c, d].map(v => v >= level);
+      const top = above[0] !== above[1] ? crossing(col, row, a, col + 1, row, b) : null;
+      const right = above[1] !== above[2] ? crossing(col + 1, row, b, col + 1, row + 1, c) : null;
+      const bottom = above[3] !== above[2] ? crossing(col, row + 1, d, col + 1, row + 1, c) : null;
+      const left = above[0] !== above[3] ? crossing(col, row, a, col, row + 1, d) : null;
+      const points = [top, right, bottom, left].filter((p): p is Point => p !== null);
+
+      if (points.length === 2) {
+        push(points[0], points[1]);
+      } else if (points.length === 4) {
+        const centreAbove = (a + b + c + d) / 4 >= level;
+        if (centreAbove === above[0]) {
+          push(top, right);
+          push(bottom, left);
+        } else {
+          push(top, left);
+          push(right, bottom);
+        }
+      }
+    }
+  }
+
+  return segments;
+};
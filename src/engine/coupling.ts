@@ -0,0 +1,43 @@
+import { CouplingPreset, SimulationParameters } from './types';
+import { deriveSeed, Random } from './random';
+
+// Decay length, in positions along the agent ordering, for the distance-decay preset
+export const COUPLING_DECAY_LENGTH = 2;
+export const COMMUNITY_COUNT = 3;
+// Coupling between communities relative to coupling within one
+export const CROSS_COMMUNITY_FACTOR = 0.1;
+
+const symmetric = (n: number, entry: (i: number, j: number) => number): number[][] => {
+  const matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      matrix[i][j] = matrix[j][i] = entry(i, j);
+    }
+  }
+  return matrix;
+};
+
+export const communityOf = (agent: number, n: number) => Math.floor((agent * COMMUNITY_COUNT) / Math.max(1, n));
+
+export const COUPLING_PRESETS: Record<CouplingPreset, (n: number, strength: number, rng: Random) => number[][]> = {
+  uniform: (n, strength) => symmetric(n, () => strength),
+  // Distance is the separation along the agent ordering, wrapped like the ring
+  'distance-decay': (n, strength) =>
+    symmetric(n, (i, j) => {
+      const distance = Math.min(j - i, n - (j - i));
+      return strength * Math.exp(-(distance - 1) / COUPLING_DECAY_LENGTH);
+    }),
+  // Uniform on [0, 2γ], so the mean matches the uniform preset
+  random: (n, strength, rng) => symmetric(n, () => 2 * strength * rng.next()),
+  'block-community': (n, strength) =>
+    symmetric(n, (i, j) => (communityOf(i, n) === communityOf(j, n) ? strength : strength * CROSS_COMMUNITY_FACTOR))
+};
+
+export const COUPLING_PRESET_IDS = Object.keys(COUPLING_PRESETS) as CouplingPreset[];
+
+export const presetCoupling = (params: SimulationParameters, n: number): number[][] =>
+  COUPLING_PRESETS[params.couplingPreset](n, params.coupling, new Random(deriveSeed(params.seed, 'coupling')));
+
+// A hand-edited matrix wins while its size still matches the network
+export const resolveCoupling = (params: SimulationParameters, n: number): number[][] =>
+  params.couplingMatrix?.length === n ? params.couplingMatrix : presetCoupling(params, n);
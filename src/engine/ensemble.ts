@@ -0,0 +1,96 @@
+import { SimulationParameters } from './types';
+import { deriveSeed } from './random';
+import { runTrajectory } from './trajectory';
+import { histogram, HistogramBin, quantile } from './statistics';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+export const MIN_ENSEMBLE_RUNS = 100;
+export const MAX_ENSEMBLE_RUNS = 10000;
+
+export interface EnsembleOptions {
+  runs: number;
+  horizon: number;
+  sampleEvery?: number;
+  histogramBins?: number;
+}
+
+export interface EnsembleBand {
+  time: number;
+  p5: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+}
+
+export interface EnsembleResult {
+  runs: number;
+  bands: EnsembleBand[];
+  asiTimes: number[];
+  asiHistogram: HistogramBin[];
+  reachedFraction: number;
+}
+
+export interface EnsembleCallbacks extends ProgressOptions {
+  // Runs per slice of work between yields to the event loop
+  chunkSize?: number;
+}
+
+/**
+ * Runs `runs` independent trajectories, each seeded from the base seed, and
+ * reduces them to percentile bands and a time-to-ASI histogram. Work is sliced
+ * so the caller's thread stays responsive; abort through `signal`.
+ */
+export const runEnsemble = async (
+  params: SimulationParameters,
+  { runs, horizon, sampleEvery = 5, histogramBins = 30 }: EnsembleOptions,
+  { onProgress, signal, chunkSize = 50 }: EnsembleCallbacks = {}
+): Promise<EnsembleResult> => {
+  const total = Math.min(MAX_ENSEMBLE_RUNS, Math.max(1, Math.round(runs)));
+  let columns: Float64Array[] = [];
+  let times: number[] = [];
+  const asiTimes: number[] = [];
+
+  for (let run = 0; run < total; run++) {
+    throwIfAborted(signal, 'Ensemble');
+
+    const { samples, asiTime } = runTrajectory(
+      { ...params, seed: deriveSeed(params.seed, `ensemble-${run}`) },
+      { horizon, sampleEvery }
+    );
+    if (run === 0) {
+      times = samples.map(s => s.time);
+      columns = samples.map(() => new Float64Array(total));
+    }
+    samples.forEach((s, i) => {
+      columns[i][run] = s.intelligence;
+    });
+    if (asiTime !== null) asiTimes.push(asiTime);
+
+    if ((run + 1) % chunkSize === 0) {
+      onProgress?.(run + 1, total);
+      await yieldToEventLoop();
+    }
+  }
+  onProgress?.(total, total);
+
+  const bands = columns.map((column, i) => {
+    column.sort();
+    return {
+      time: times[i],
+      p5: quantile(column, 0.05),
+      p25: quantile(column, 0.25),
+      median: quantile(column, 0.5),
+      p75: quantile(column, 0.75),
+      p95: quantile(column, 0.95)
+    };
+  });
+
+  return {
+    runs: total,
+    bands,
+    asiTimes,
+    asiHistogram: histogram(asiTimes, histogramBins),
+    reachedFraction: asiTimes.length / total
+  };
+};
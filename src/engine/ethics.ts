@@ -0,0 +1,143 @@
+import { Agent, EthicsEvent, EthicsState, InterventionKind, SimulationParameters } from './types';
+import { Random } from './random';
+import { ARCHETYPES } from './archetypes';
+
+// Rate at which oversight pulls the score back towards 1
+export const ETHICS_RECOVERY_RATE = 0.2;
+// Erosion per unit of (saturated) relative growth rate and √(active agents)
+export const ETHICS_EROSION = 0.1;
+export const ETHICS_VOLATILITY = 0.01;
+// The score must climb this far above the threshold before interventions are lifted
+export const RECOVERY_MARGIN = 0.02;
+// Factor applied to α while throttled
+export const THROTTLE_FACTOR = 0.5;
+export const QUARANTINE_FRACTION = 0.25;
+// Spread of individual agents' judgement around the shared score
+export const AGENT_JUDGEMENT_SPREAD = 0.2;
+// Oldest entries are dropped once the log grows past this size
+export const MAX_EVENT_LOG = 200;
+
+// Interventions escalate with the deficit below the threshold
+export const INTERVENTION_LADDER: { kind: InterventionKind; deficit: number }[] = [
+  { kind: 'throttle', deficit: 0 },
+  { kind: 'pause-self-modification', deficit: 0.05 },
+  { kind: 'quarantine', deficit: 0.1 }
+];
+
+const NO_INTERVENTIONS: Record<InterventionKind, boolean> = {
+  throttle: false,
+  'pause-self-modification': false,
+  quarantine: false
+};
+
+export const initialEthics = (): EthicsState => ({
+  score: 0.95,
+  violated: false,
+  interventions: { ...NO_INTERVENTIONS },
+  quarantinedAgents: 0,
+  interventionCount: 0
+});
+
+export const activeAgents = (ethics: EthicsState, params: SimulationParameters) =>
+  Math.max(1, params.agentCount - ethics.quarantinedAgents);
+
+export interface AgentEthics {
+  agent: number;
+  score: number;
+  quarantined: boolean;
+}
+
+/**
+ * Per-agent view of the shared score: agents judge it with a fixed bias, an
+ * even spread over the population plus their archetype's leaning, and
+ * quarantine takes the lowest-scoring agents out first.
+ */
+export const agentEthics = (ethics: EthicsState, agents: Agent[]): AgentEthics[] => {
+  const n = agents.length;
+  const bias = agents.map(
+    ({ archetype }, i) => (n === 1 ? 0 : AGENT_JUDGEMENT_SPREAD * (i / (n - 1) - 0.5)) + ARCHETYPES[archetype].ethicsBias
+  );
+  const order = bias.map((_, i) => i).sort((a, b) => bias[a] - bias[b] || a - b);
+  const quarantined = new Set(order.slice(0, ethics.quarantinedAgents));
+  return bias.map((b, agent) => ({
+    agent,
+    score: Math.min(1, Math.max(0, ethics.score + b)),
+    quarantined: quarantined.has(agent)
+  }));
+};
+
+/**
+ * Parameters as seen by the growth model once interventions are in force:
+ * throttling halves α, pausing self-modification stops the hypothesis pool
+ * from generating new hypotheses and cuts the I → Q feedback.
+ */
+export const applyInterventions = (params: SimulationParameters, { interventions }: EthicsState): SimulationParameters => {
+  if (!interventions.throttle && !interventions['pause-self-modification']) return params;
+  const paused = interventions['pause-self-modification'];
+  return {
+    ...params,
+    alpha: paused ? 0 : params.alpha * THROTTLE_FACTOR,
+    feedback: paused ? 0 : params.feedback
+  };
+};
+
+export interface EthicsStep {
+  ethics: EthicsState;
+  events: EthicsEvent[];
+}
+
+/**
+ * Score dynamics, integrated with Euler–Maruyama:
+ *   dE/dt = r·(1 - E) - c·(g / (1 + g))·√n·E + σ·dW
+ * where g is the relative growth rate of intelligence and n the number of
+ * agents outside quarantine. Fast growth and large populations erode the score
+ * faster than oversight can restore it; crossing the threshold escalates
+ * interventions, and climbing back past threshold + margin lifts them all.
+ */
+export const stepEthics = (
+  ethics: EthicsState,
+  params: SimulationParameters,
+  growthRate: number,
+  time: number,
+  dt: number,
+  rng: Random
+): EthicsStep => {
+  const pressure = growthRate / (1 + growthRate);
+  const erosion = ETHICS_EROSION * pressure * Math.sqrt(activeAgents(ethics, params));
+  const drift = ETHICS_RECOVERY_RATE * (1 - ethics.score) - erosion * ethics.score;
+  const score = Math.min(1, Math.max(0, ethics.score + drift * dt + ETHICS_VOLATILITY * Math.sqrt(dt) * rng.normal()));
+
+  const events: EthicsEvent[] = [];
+  const threshold = params.ethicalThreshold;
+  let { violated, interventions, quarantinedAgents, interventionCount } = ethics;
+
+  if (!violated && score < threshold) {
+    violated = true;
+    events.push({ time, type: 'violation', score });
+  } else if (violated && score >= threshold + RECOVERY_MARGIN) {
+    violated = false;
+    interventions = { ...NO_INTERVENTIONS };
+    quarantinedAgents = 0;
+    events.push({ time, type: 'recovery', score });
+  }
+
+  if (violated) {
+    for (const { kind, deficit } of INTERVENTION_LADDER) {
+      if (interventions[kind] || threshold - score < deficit) continue;
+      interventions = { ...interventions, [kind]: true };
+      interventionCount++;
+      if (kind === 'quarantine') {
+        quarantinedAgents = Math.min(params.agentCount - 1, Math.ceil(params.agentCount * QUARANTINE_FRACTION));
+      }
+      events.push({ time, type: 'intervention', score, intervention: kind });
+    }
+  }
+
+  return {
+    ethics: { score, violated, interventions, quarantinedAgents, interventionCount },
+    events
+  };
+};
+
+export const appendEvents = (log: EthicsEvent[], events: EthicsEvent[]): EthicsEvent[] =>
+  events.length === 0 ? log : [...log, ...events].slice(-MAX_EVENT_LOG);
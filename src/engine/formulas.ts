@@ -0,0 +1,138 @@
+import { SimulationParameters } from './types';
+import { I_ASI } from './model';
+
+// Cumulative hypothesis drive used by the saturating regimes: τ = δQ₀(e^(αt) - 1)/(αK)
+const drive = (t: number, { alpha, delta, initialHypotheses, carryingCapacity }: SimulationParameters) =>
+  delta * initialHypotheses * (Math.exp(alpha * t) - 1) / (alpha * carryingCapacity);
+
+// Inverse of `drive`: the time at which the drive reaches τ
+const timeForDrive = (tau: number, { alpha, delta, initialHypotheses, carryingCapacity }: SimulationParameters) =>
+  (1 / alpha) * Math.log(1 + alpha * carryingCapacity * tau / (delta * initialHypotheses));
+
+// Compute-limited regime: hypotheses grow exponentially until αQ reaches the budget R
+const computeCrossover = ({ alpha, delta, initialIntelligence, initialHypotheses, computeBudget }: SimulationParameters) => {
+  const time = computeBudget > alpha * initialHypotheses ? (1 / alpha) * Math.log(computeBudget / (alpha * initialHypotheses)) : 0;
+  const hypotheses = initialHypotheses * Math.exp(alpha * time);
+  const intelligence = initialIntelligence + delta * (hypotheses - initialHypotheses) / alpha;
+  return { time, hypotheses, intelligence };
+};
+
+export interface FormulaDefinition {
+  expression: string;
+  evaluate?: (...args: never[]) => number;
+}
+
+/**
+ * Single source of truth for the model equations. The engine evaluates these,
+ * and the UI renders `expression` verbatim, so what is shown is what runs.
+ */
+export const FORMULAS = {
+  intelligence: {
+    expression: 'I(t) = I₀ + (δQ₀/α)(e^(αt) - 1)',
+    evaluate: (t: number, { alpha, delta, initialIntelligence, initialHypotheses }: SimulationParameters) =>
+      initialIntelligence + (delta * initialHypotheses / alpha) * (Math.exp(alpha * t) - 1)
+  },
+  hypotheses: {
+    expression: 'Q(t) = Q₀ × e^(αt)',
+    evaluate: (t: number, { alpha, initialHypotheses }: SimulationParameters) =>
+      initialHypotheses * Math.exp(alpha * t)
+  },
+  asiTime: {
+    expression: 'T = (1/α)·ln((α·(I_ASI-I₀))/(δ·Q₀) + 1)',
+    evaluate: ({ alpha, delta, initialIntelligence, initialHypotheses }: SimulationParameters) =>
+      initialIntelligence >= I_ASI
+        ? 0
+        : (1 / alpha) * Math.log((alpha * (I_ASI - initialIntelligence)) / (delta * initialHypotheses) + 1)
+  },
+  logisticIntelligence: {
+    expression: 'I(t) = K - (K - I₀)·e^(-τ), τ = δQ₀(e^(αt) - 1)/(αK)',
+    evaluate: (t: number, params: SimulationParameters) =>
+      params.carryingCapacity - (params.carryingCapacity - params.initialIntelligence) * Math.exp(-drive(t, params))
+  },
+  logisticAsiTime: {
+    expression: 'T = (1/α)·ln(1 + αK·ln((K-I₀)/(K-I_ASI))/(δQ₀))',
+    evaluate: (params: SimulationParameters) => {
+      const { carryingCapacity: K, initialIntelligence } = params;
+      if (initialIntelligence >= I_ASI) return 0;
+      if (K <= I_ASI) return Infinity;
+      return timeForDrive(Math.log((K - initialIntelligence) / (K - I_ASI)), params);
+    }
+  },
+  gompertzIntelligence: {
+    expression: 'I(t) = K·(I₀/K)^(e^(-τ)), τ = δQ₀(e^(αt) - 1)/(αK)',
+    evaluate: (t: number, params: SimulationParameters) =>
+      params.carryingCapacity * Math.pow(params.initialIntelligence / params.carryingCapacity, Math.exp(-drive(t, params)))
+  },
+  gompertzAsiTime: {
+    expression: 'T = (1/α)·ln(1 + αK·ln(ln(K/I₀)/ln(K/I_ASI))/(δQ₀))',
+    evaluate: (params: SimulationParameters) => {
+      const { carryingCapacity: K, initialIntelligence } = params;
+      if (initialIntelligence >= I_ASI) return 0;
+      if (K <= I_ASI) return Infinity;
+      return timeForDrive(Math.log(Math.log(K / initialIntelligence) / Math.log(K / I_ASI)), params);
+    }
+  },
+  computeHypotheses: {
+    expression: 'dQ/dt = min(αQ, R)',
+    evaluate: (t: number, params: SimulationParameters) => {
+      const crossover = computeCrossover(params);
+      if (t <= crossover.time) return params.initialHypotheses * Math.exp(params.alpha * t);
+      return crossover.hypotheses + params.computeBudget * (t - crossover.time);
+    }
+  },
+  computeIntelligence: {
+    expression: 'I(t) = I_c + δ·(Q_c·s + R·s²/2), s = t - t_c',
+    evaluate: (t: number, params: SimulationParameters) => {
+      const crossover = computeCrossover(params);
+      if (t <= crossover.time) {
+        return params.initialIntelligence + (params.delta * params.initialHypotheses / params.alpha) * (Math.exp(params.alpha * t) - 1);
+      }
+      const s = t - crossover.time;
+      return crossover.intelligence + params.delta * (crossover.hypotheses * s + params.computeBudget * s * s / 2);
+    }
+  },
+  computeAsiTime: {
+    expression: 'T = t_c + (√(Q_c² + 2R(I_ASI-I_c)/δ) - Q_c)/R',
+    evaluate: (params: SimulationParameters) => {
+      const crossover = computeCrossover(params);
+      const { alpha, delta, initialIntelligence, initialHypotheses, computeBudget: R } = params;
+      if (initialIntelligence >= I_ASI) return 0;
+      if (I_ASI <= crossover.intelligence) {
+        return (1 / alpha) * Math.log((alpha * (I_ASI - initialIntelligence)) / (delta * initialHypotheses) + 1);
+      }
+      const Qc = crossover.hypotheses;
+      return crossover.time + (Math.sqrt(Qc * Qc + 2 * R * (I_ASI - crossover.intelligence) / delta) - Qc) / R;
+    }
+  },
+  resonanceCoupling: {
+    expression: 'ω_рез = β·α',
+    evaluate: ({ resonanceStrength, alpha }: SimulationParameters) => resonanceStrength * alpha
+  },
+  kuramoto: {
+    expression: 'dθ_i/dt = ω_i + (K/N)·Σ sin(θ_j - θ_i)'
+  },
+  orderParameter: {
+    expression: 'r·e^{iψ} = (1/N)·Σ e^{iθ_j}'
+  },
+  // Kuramoto's threshold 2/(π·g(0)) for Gaussian frequencies g, exact as N → ∞
+  criticalCoupling: {
+    expression: 'K_c = σ_ω·√(8/π)',
+    evaluate: ({ frequencySpread }: SimulationParameters) => frequencySpread * Math.sqrt(8 / Math.PI)
+  },
+  // D is the fitted dimension of the resonance point cloud; the coupling K stands in for Σ(qₖ/mₖ)
+  resonanceFrequency: {
+    expression: 'ω = (1/D) × Σ(qₖ/mₖ)',
+    evaluate: (dimension: number, { resonanceStrength }: Pick<SimulationParameters, 'resonanceStrength'>) => resonanceStrength / dimension
+  },
+  complexity: {
+    expression: 'O(2^n) → O(n²)'
+  },
+  emergence: {
+    expression: 'I_эм = ΣI_i + Σγ_ij·I_i·I_j'
+  },
+  ethicalScore: {
+    expression: 'dE/dt = r·(1 - E) - c·(g/(1 + g))·√n·E'
+  }
+} satisfies Record<string, FormulaDefinition>;
+
+export type FormulaId = keyof typeof FORMULAS;
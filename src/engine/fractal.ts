@@ -0,0 +1,190 @@
+import { SimulationParameters } from './types';
+import { SimulationEngine } from './SimulationEngine';
+import { FIXED_TIMESTEP } from './clock';
+import { orderParameter } from './kuramoto';
+import { graphMetrics } from './graph';
+import { Point } from './layout';
+import { linearFit } from './statistics';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+export interface ScalingPoint {
+  // log ε for the correlation sum, log(1/ε) for box counting
+  logScale: number;
+  logMeasure: number;
+  // Whether the point lies in the scaling range the slope was fitted over
+  fitted: boolean;
+}
+
+export interface DimensionEstimate {
+  dimension: number;
+  intercept: number;
+  rSquared: number;
+  points: ScalingPoint[];
+}
+
+// Fits the slope over the flagged points, or over all of them when too few are flagged
+const fitScaling = (points: ScalingPoint[]): DimensionEstimate | null => {
+  const fitted = points.filter(point => point.fitted).length >= 2 ? points.filter(point => point.fitted) : points;
+  if (fitted.length < 2) return null;
+  const { slope, intercept, rSquared } = linearFit(fitted.map(point => point.logScale), fitted.map(point => point.logMeasure));
+  return {
+    dimension: slope,
+    intercept,
+    rSquared,
+    points: points.map(point => ({ ...point, fitted: fitted.includes(point) }))
+  };
+};
+
+/**
+ * Box-counting dimension: the cloud is scaled into the unit cube and covered
+ * with boxes of side ε = 2^-k; D is the slope of log N(ε) against log(1/ε).
+ * Grids with boxes for at least half the points are left out of the fit,
+ * since there every point sits alone and N(ε) stops growing.
+ */
+export const boxCountingDimension = (points: number[][], levels = 8): DimensionEstimate | null => {
+  if (points.length < 2) return null;
+  // Bounding box by a plain loop: the cloud has a point per recorded step, too many to spread into Math.min
+  const min = [...points[0]];
+  const max = [...points[0]];
+  for (const point of points) {
+    point.forEach((value, d) => {
+      if (value < min[d]) min[d] = value;
+      if (value > max[d]) max[d] = value;
+    });
+  }
+  const extent = max.reduce((widest, value, d) => Math.max(widest, value - min[d]), 0);
+  if (extent === 0) return null;
+
+  const scaling: ScalingPoint[] = [];
+  for (let k = 1; k <= levels; k++) {
+    const boxes = 2 ** k;
+    const occupied = new Set<string>();
+    for (const point of points) {
+      occupied.add(point.map((value, d) => Math.min(boxes - 1, Math.floor(((value - min[d]) / extent) * boxes))).join(','));
+    }
+    scaling.push({ logScale: Math.log(boxes), logMeasure: Math.log(occupied.size), fitted: occupied.size < points.length / 2 });
+  }
+  return fitScaling(scaling);
+};
+
+// Correlation sums below this are dominated by a handful of close pairs, above it by the cloud's outline
+const CORRELATION_RANGE: [number, number] = [1e-3, 0.3];
+
+/**
+ * Grassberger–Procaccia correlation dimension: C(ε) is the share of point
+ * pairs closer than ε and D the slope of log C against log ε in the range
+ * where C scales as a power law. Clouds larger than `maxPoints` are thinned
+ * evenly, as the pair count grows quadratically.
+ */
+export const correlationDimension = (points: number[][], radii = 16, maxPoints = 800): DimensionEstimate | null => {
+  const stride = Math.max(1, Math.ceil(points.length / maxPoints));
+  const cloud = points.filter((_, i) => i % stride === 0);
+  const distances: number[] = [];
+  for (let i = 0; i < cloud.length; i++) {
+    for (let j = i + 1; j < cloud.length; j++) {
+      distances.push(Math.hypot(...cloud[i].map((value, d) => value - cloud[j][d])));
+    }
+  }
+  const positive = distances.filter(distance => distance > 0).sort((a, b) => a - b);
+  if (positive.length < 2 || positive[0] === positive[positive.length - 1]) return null;
+
+  const logMin = Math.log(positive[0]);
+  const logMax = Math.log(positive[positive.length - 1]);
+  const scaling: ScalingPoint[] = [];
+  let below = 0;
+  for (let k = 0; k < radii; k++) {
+    const logScale = logMin + ((logMax - logMin) * (k + 0.5)) / radii;
+    const radius = Math.exp(logScale);
+    while (below < positive.length && positive[below] < radius) below++;
+    const share = below / distances.length;
+    if (share > 0) {
+      scaling.push({
+        logScale,
+        logMeasure: Math.log(share),
+        fitted: share >= CORRELATION_RANGE[0] && share <= CORRELATION_RANGE[1]
+      });
+    }
+  }
+  return fitScaling(scaling);
+};
+
+/**
+ * Correlation dimension of a graph under its shortest-path metric: C(r) is the
+ * share of connected ordered pairs within r hops. It depends on the links
+ * alone, not on where a layout draws the agents. Radii covering more than
+ * half the pairs feel the graph's finite size and are left out of the fit.
+ */
+export const networkCorrelationDimension = (distanceDistribution: number[]): DimensionEstimate | null => {
+  const pairs = distanceDistribution.reduce((a, b) => a + b, 0);
+  if (pairs === 0) return null;
+  const scaling: ScalingPoint[] = [];
+  let within = 0;
+  for (let r = 1; r < distanceDistribution.length; r++) {
+    within += distanceDistribution[r];
+    scaling.push({ logScale: Math.log(r), logMeasure: Math.log(within / pairs), fitted: within <= pairs / 2 });
+  }
+  return fitScaling(scaling);
+};
+
+export interface DimensionOptions extends ProgressOptions {
+  horizon: number;
+  // Leading stretch of the run discarded before the cloud is recorded, by default a quarter
+  transient?: number;
+  sampleEvery?: number;
+}
+
+export interface DimensionAnalysis {
+  // The resonance point cloud: the Kuramoto mean-field trajectory r·e^{iψ} after the transient
+  cloud: Point[];
+  boxCounting: DimensionEstimate | null;
+  correlation: DimensionEstimate | null;
+  // Shortest-path correlation dimension of the final network's links
+  network: DimensionEstimate | null;
+}
+
+const engine = new SimulationEngine();
+
+// Steps between yields to the event loop while recording
+const RECORD_CHUNK = 100;
+
+/**
+ * Records the resonance point cloud, the trajectory of the Kuramoto mean
+ * field r·e^{iψ} in the complex plane over a headless run, and estimates its
+ * box-counting and correlation dimensions: near 1 when the agents lock into
+ * one rhythm and the field circles at constant r, higher while drifting
+ * agents make r fluctuate. The final network is measured alongside by its
+ * shortest-path correlation dimension, not by any layout embedding.
+ */
+export const runDimensionAnalysis = async (
+  params: SimulationParameters,
+  { horizon, transient = horizon / 4, sampleEvery = 1, onProgress, signal }: DimensionOptions
+): Promise<DimensionAnalysis> => {
+  const dt = FIXED_TIMESTEP;
+  const steps = Math.round(horizon / dt);
+  const skip = Math.round(transient / dt);
+  let state = engine.reset(params);
+  const cloud: Point[] = [];
+
+  for (let i = 1; i <= steps; i++) {
+    state = engine.step(state, params, dt);
+    if (i > skip && i % sampleEvery === 0) {
+      const { r, psi } = orderParameter(state.network.agents.map(agent => agent.phase));
+      cloud.push({ x: r * Math.cos(psi), y: r * Math.sin(psi) });
+    }
+    if (i % RECORD_CHUNK === 0) {
+      throwIfAborted(signal, 'Dimension analysis');
+      onProgress?.(i, steps);
+      await yieldToEventLoop();
+    }
+  }
+  onProgress?.(steps, steps);
+
+  const coordinates = cloud.map(({ x, y }) => [x, y]);
+  const { distanceDistribution } = graphMetrics(state.network.agents.map(agent => agent.connections));
+  return {
+    cloud,
+    boxCounting: boxCountingDimension(coordinates),
+    correlation: correlationDimension(coordinates),
+    network: networkCorrelationDimension(distanceDistribution)
+  };
+};
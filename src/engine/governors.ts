@@ -0,0 +1,86 @@
+import { EthicsEvent, GovernorId, GovernorState, SimulationParameters, SimulationState } from './types';
+import { I_ASI } from './model';
+import { agentEthics } from './ethics';
+
+export interface GovernorAction {
+  // Overrides applied to the parameters for this step only
+  params?: Partial<SimulationParameters>;
+  // Freezes growth for the rest of the run
+  shutdown?: boolean;
+}
+
+/**
+ * An alignment policy. It sees the latest state before every step and may
+ * override parameters for that step; returning null leaves the step untouched.
+ */
+export interface AlignmentGovernor {
+  govern: (state: SimulationState, params: SimulationParameters) => GovernorAction | null;
+}
+
+// Maximum relative growth rate d ln I / dt tolerated by the growth cap
+export const GROWTH_RATE_CAP = 0.2;
+// Share of agents that must approve before self-modification may proceed
+export const CONSENSUS_QUORUM = 2 / 3;
+export const TRIPWIRE_INTELLIGENCE = 0.9 * I_ASI;
+export const TRIPWIRE_ETHICS_MARGIN = 0.15;
+
+// Share of agents outside quarantine whose own judgement clears the threshold
+export const consensusShare = (state: SimulationState, params: SimulationParameters) => {
+  const voters = agentEthics(state.ethics, state.network.agents).filter(agent => !agent.quarantined);
+  return voters.filter(agent => agent.score >= params.ethicalThreshold).length / Math.max(1, voters.length);
+};
+
+export const GOVERNORS: Record<GovernorId, AlignmentGovernor> = {
+  'growth-cap': {
+    govern: ({ metrics }, params) =>
+      metrics.growthRate > GROWTH_RATE_CAP
+        ? { params: { alpha: params.alpha * GROWTH_RATE_CAP / metrics.growthRate } }
+        : null
+  },
+  consensus: {
+    govern: (state, params) =>
+      consensusShare(state, params) < CONSENSUS_QUORUM ? { params: { alpha: 0, feedback: 0 } } : null
+  },
+  tripwire: {
+    govern: ({ metrics }, params) =>
+      metrics.intelligence >= TRIPWIRE_INTELLIGENCE || metrics.ethicalScore < params.ethicalThreshold - TRIPWIRE_ETHICS_MARGIN
+        ? { shutdown: true }
+        : null
+  }
+};
+
+export const GOVERNOR_IDS = Object.keys(GOVERNORS) as GovernorId[];
+
+export const initialGovernorState = (): GovernorState => ({ active: [], halted: false });
+
+export interface GovernedStep {
+  params: SimulationParameters;
+  governor: GovernorState;
+  events: EthicsEvent[];
+}
+
+// Runs the selected governors in order, each seeing the previous one's overrides
+export const applyGovernors = (state: SimulationState, params: SimulationParameters): GovernedStep => {
+  let governed = params;
+  let { halted } = state.governor;
+  const active: GovernorId[] = [];
+  const events: EthicsEvent[] = [];
+  const { time, metrics } = state;
+
+  for (const id of params.governors) {
+    if (halted) break;
+    const action = GOVERNORS[id].govern(state, governed);
+    if (!action) continue;
+    active.push(id);
+    if (action.params) governed = { ...governed, ...action.params };
+    if (action.shutdown) {
+      halted = true;
+      events.push({ time, type: 'shutdown', score: metrics.ethicalScore, governor: id });
+    } else if (!state.governor.active.includes(id)) {
+      events.push({ time, type: 'governor', score: metrics.ethicalScore, governor: id });
+    }
+  }
+
+  if (halted) governed = { ...governed, alpha: 0, delta: 0, feedback: 0 };
+  return { params: governed, governor: { active, halted }, events };
+};
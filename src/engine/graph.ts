@@ -0,0 +1,169 @@
+// Structural analytics of the agent graph, given as symmetric adjacency lists
+
+export type NodeMetric = 'intelligence' | 'degree' | 'clustering' | 'betweenness' | 'eigenvector' | 'component';
+
+export const NODE_METRICS: NodeMetric[] = ['intelligence', 'degree', 'clustering', 'betweenness', 'eigenvector', 'component'];
+
+export interface GraphMetrics {
+  degree: number[];
+  // degreeDistribution[k] = number of agents with exactly k connections
+  degreeDistribution: number[];
+  clustering: number[];
+  averageClustering: number;
+  // Mean shortest path over connected pairs; null when no pair is connected
+  averagePathLength: number | null;
+  diameter: number;
+  // distanceDistribution[d] = number of ordered connected pairs exactly d hops apart
+  distanceDistribution: number[];
+  betweenness: number[];
+  eigenvector: number[];
+  component: number[];
+  componentSizes: number[];
+  spectralRadius: number;
+}
+
+export const POWER_ITERATIONS = 200;
+const POWER_TOLERANCE = 1e-10;
+
+const localClustering = (connections: number[][]): number[] => {
+  const neighbourSets = connections.map(list => new Set(list));
+  return connections.map(neighbours => {
+    const k = neighbours.length;
+    if (k < 2) return 0;
+    let links = 0;
+    for (let a = 0; a < k; a++) {
+      for (let b = a + 1; b < k; b++) {
+        if (neighbourSets[neighbours[a]].has(neighbours[b])) links++;
+      }
+    }
+    return (2 * links) / (k * (k - 1));
+  });
+};
+
+const connectedComponents = (connections: number[][]): number[] => {
+  const component = new Array<number>(connections.length).fill(-1);
+  let next = 0;
+  for (let start = 0; start < connections.length; start++) {
+    if (component[start] !== -1) continue;
+    const stack = [start];
+    component[start] = next;
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const neighbour of connections[current]) {
+        if (component[neighbour] === -1) {
+          component[neighbour] = next;
+          stack.push(neighbour);
+        }
+      }
+    }
+    next++;
+  }
+  return component;
+};
+
+// Brandes' algorithm; one breadth-first search per source also yields the path length statistics
+const shortestPaths = (connections: number[][]) => {
+  const n = connections.length;
+  const betweenness = new Array<number>(n).fill(0);
+  let totalLength = 0;
+  let pairs = 0;
+  let diameter = 0;
+  const distanceDistribution = [0];
+
+  for (let source = 0; source < n; source++) {
+    const distance = new Array<number>(n).fill(-1);
+    const paths = new Array<number>(n).fill(0);
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const order: number[] = [];
+    distance[source] = 0;
+    paths[source] = 1;
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      order.push(current);
+      for (const next of connections[current]) {
+        if (distance[next] === -1) {
+          distance[next] = distance[current] + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[current] + 1) {
+          paths[next] += paths[current];
+          predecessors[next].push(current);
+        }
+      }
+    }
+
+    const dependency = new Array<number>(n).fill(0);
+    for (let i = order.length - 1; i >= 0; i--) {
+      const w = order[i];
+      for (const v of predecessors[w]) {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      }
+      if (w !== source) {
+        betweenness[w] += dependency[w];
+        totalLength += distance[w];
+        pairs++;
+        diameter = Math.max(diameter, distance[w]);
+        while (distanceDistribution.length <= distance[w]) distanceDistribution.push(0);
+        distanceDistribution[distance[w]]++;
+      }
+    }
+  }
+
+  // Each unordered pair was counted from both ends, so (n-1)(n-2) normalises to [0, 1]
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return {
+    betweenness: betweenness.map(value => value * scale),
+    averagePathLength: pairs > 0 ? totalLength / pairs : null,
+    diameter,
+    distanceDistribution
+  };
+};
+
+// Power iteration on A + I: the shift keeps bipartite graphs (rings, trees, grids) from oscillating
+// without changing the leading eigenvector, and the eigenvalue is recovered by subtracting it again
+const leadingEigen = (connections: number[][]) => {
+  const n = connections.length;
+  if (n === 0) return { vector: [], value: 0 };
+  let vector = new Array<number>(n).fill(1 / Math.sqrt(n));
+  let value = 0;
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    const next = vector.map((x, i) => connections[i].reduce((sum, j) => sum + vector[j], x));
+    const norm = Math.sqrt(next.reduce((sum, x) => sum + x * x, 0));
+    if (norm === 0) break;
+    const normalised = next.map(x => x / norm);
+    const change = normalised.reduce((sum, x, i) => sum + Math.abs(x - vector[i]), 0);
+    vector = normalised;
+    value = norm;
+    if (change < POWER_TOLERANCE) break;
+  }
+  const max = Math.max(...vector);
+  return { vector: vector.map(x => (max > 0 ? x / max : 0)), value: Math.max(0, value - 1) };
+};
+
+export const graphMetrics = (connections: number[][]): GraphMetrics => {
+  const degree = connections.map(list => list.length);
+  const degreeDistribution = new Array<number>(Math.max(0, ...degree) + 1).fill(0);
+  degree.forEach(k => degreeDistribution[k]++);
+  const clustering = localClustering(connections);
+  const component = connectedComponents(connections);
+  const componentSizes = new Array<number>(Math.max(-1, ...component) + 1).fill(0);
+  component.forEach(c => componentSizes[c]++);
+  const { betweenness, averagePathLength, diameter, distanceDistribution } = shortestPaths(connections);
+  const { vector: eigenvector, value: spectralRadius } = leadingEigen(connections);
+
+  return {
+    degree,
+    degreeDistribution,
+    clustering,
+    averageClustering: clustering.length > 0 ? clustering.reduce((a, b) => a + b, 0) / clustering.length : 0,
+    averagePathLength,
+    diameter,
+    distanceDistribution,
+    betweenness,
+    eigenvector,
+    component,
+    componentSizes,
+    spectralRadius
+  };
+};
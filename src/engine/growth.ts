@@ -0,0 +1,57 @@
+import { GrowthState, SimulationParameters } from './types';
+import { Derivative, integrate } from './integrators';
+import { GROWTH_REGIMES } from './regimes';
+
+/**
+ * Right-hand side of the growth system, y = [I, Q]. The active regime supplies
+ * the base rates (for the exponential regime dI/dt = δ·Q, dQ/dt = α·Q), and the
+ * numerical-only terms are layered on top:
+ *   dI/dt = rate_I / (1 + s·I)
+ *   dQ/dt = rate_Q - d·Q + f·I
+ * With saturation s, feedback f and damping d all zero this reduces to the
+ * regime's closed form from the formula registry.
+ */
+export const growthDerivative = (params: SimulationParameters): Derivative => {
+  const { rates } = GROWTH_REGIMES[params.regime];
+  const { saturation, feedback, damping } = params;
+  return (_t, [intelligence, hypotheses]) => {
+    const [intelligenceRate, hypothesesRate] = rates(intelligence, hypotheses, params);
+    return [
+      intelligenceRate / (1 + saturation * intelligence),
+      hypothesesRate - damping * hypotheses + feedback * intelligence
+    ];
+  };
+};
+
+export const hasAnalyticSolution = ({ saturation, feedback, damping }: SimulationParameters) =>
+  saturation === 0 && feedback === 0 && damping === 0;
+
+export const analyticGrowth = (t: number, params: SimulationParameters): GrowthState => {
+  const regime = GROWTH_REGIMES[params.regime];
+  return {
+    intelligence: regime.intelligence(t, params),
+    hypotheses: regime.hypotheses(t, params)
+  };
+};
+
+export const advanceGrowth = (
+  growth: GrowthState,
+  t: number,
+  dt: number,
+  params: SimulationParameters,
+  closedForm = true
+): GrowthState => {
+  // Closed forms assume α and δ constant since t = 0, so noisy or intervened runs are always integrated
+  if (closedForm && params.growthModel === 'analytic' && params.noiseModel === 'none') {
+    return analyticGrowth(t + dt, params);
+  }
+
+  const [intelligence, hypotheses] = integrate(
+    params.solver,
+    growthDerivative(params),
+    t,
+    [growth.intelligence, growth.hypotheses],
+    dt
+  );
+  return { intelligence, hypotheses };
+};
@@ -0,0 +1,32 @@
+export * from './types';
+export * from './model';
+export * from './formulas';
+export * from './regimes';
+export * from './SimulationEngine';
+export * from './clock';
+export * from './integrators';
+export * from './growth';
+export * from './random';
+export * from './noise';
+export * from './ethics';
+export * from './governors';
+export * from './agents';
+export * from './archetypes';
+export * from './kuramoto';
+export * from './spectrum';
+export * from './fractal';
+export * from './topology';
+export * from './coupling';
+export * from './layout';
+export * from './graph';
+export * from './statistics';
+export * from './trajectory';
+export * from './ensemble';
+export * from './async';
+export * from './parameterSpace';
+export * from './sensitivity';
+export * from './contours';
+export * from './sweep';
+export * from './robustness';
+export * from './policies';
+export * from './landscape';
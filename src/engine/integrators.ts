@@ -0,0 +1,114 @@
+export type Derivative = (t: number, y: number[]) => number[];
+
+export type SolverKind = 'euler' | 'rk4' | 'rk45';
+
+export interface AdaptiveOptions {
+  relativeTolerance?: number;
+  absoluteTolerance?: number;
+  maxSubsteps?: number;
+}
+
+// y + h·Σ c·k, written as plain loops since agent networks integrate long state vectors
+const axpy = (y: number[], h: number, ...terms: [number, number[]][]) => {
+  const result = y.slice();
+  for (const [c, k] of terms) {
+    if (c === 0) continue;
+    for (let i = 0; i < result.length; i++) result[i] += h * c * k[i];
+  }
+  return result;
+};
+
+export const eulerStep = (f: Derivative, t: number, y: number[], h: number): number[] =>
+  axpy(y, h, [1, f(t, y)]);
+
+export const rk4Step = (f: Derivative, t: number, y: number[], h: number): number[] => {
+  const k1 = f(t, y);
+  const k2 = f(t + h / 2, axpy(y, h / 2, [1, k1]));
+  const k3 = f(t + h / 2, axpy(y, h / 2, [1, k2]));
+  const k4 = f(t + h, axpy(y, h, [1, k3]));
+  return axpy(y, h / 6, [1, k1], [2, k2], [2, k3], [1, k4]);
+};
+
+// Dormand–Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A: number[][] = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+const dormandPrinceStep = (f: Derivative, t: number, y: number[], h: number) => {
+  const k: number[][] = [];
+  for (let stage = 0; stage < 7; stage++) {
+    const yStage = axpy(y, h, ...DP_A[stage].map((a, j): [number, number[]] => [a, k[j]]));
+    k.push(f(t + DP_C[stage] * h, yStage));
+  }
+  const y5 = axpy(y, h, ...DP_B5.map((b, j): [number, number[]] => [b, k[j]]));
+  const y4 = axpy(y, h, ...DP_B4.map((b, j): [number, number[]] => [b, k[j]]));
+  return { y: y5, error: y5.map((value, i) => value - y4[i]) };
+};
+
+/**
+ * Integrates from t to t + dt with adaptive Dormand–Prince substeps, shrinking
+ * or growing the substep so the embedded error estimate stays within tolerance.
+ * If `maxSubsteps` runs out first, the rest of the interval is covered with
+ * fixed RK4 steps at the last substep size, so the result always reaches t + dt.
+ */
+export const rk45Integrate = (
+  f: Derivative,
+  t: number,
+  y: number[],
+  dt: number,
+  { relativeTolerance = 1e-8, absoluteTolerance = 1e-10, maxSubsteps = 1000 }: AdaptiveOptions = {}
+): number[] => {
+  const end = t + dt;
+  let current = y;
+  let time = t;
+  let h = dt;
+
+  for (let i = 0; i < maxSubsteps && time < end; i++) {
+    h = Math.min(h, end - time);
+    const { y: next, error } = dormandPrinceStep(f, time, current, h);
+    const norm = Math.sqrt(
+      error.reduce((sum, e, j) => {
+        const scale = absoluteTolerance + relativeTolerance * Math.max(Math.abs(current[j]), Math.abs(next[j]));
+        return sum + (e / scale) ** 2;
+      }, 0) / error.length
+    );
+
+    if (norm <= 1) {
+      time += h;
+      current = next;
+    }
+    // Standard step-size controller with safety factor and growth limits
+    const factor = norm === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(norm, -1 / 5)));
+    h *= factor;
+  }
+
+  const remaining = end - time;
+  if (remaining > 0) {
+    const size = Number.isFinite(h) && h > 0 ? h : remaining;
+    const steps = Math.max(1, Math.min(maxSubsteps, Math.ceil(remaining / size)));
+    const step = remaining / steps;
+    for (let i = 0; i < steps; i++) {
+      current = rk4Step(f, time, current, step);
+      time += step;
+    }
+  }
+
+  return current;
+};
+
+export const integrate = (solver: SolverKind, f: Derivative, t: number, y: number[], dt: number): number[] => {
+  switch (solver) {
+    case 'euler': return eulerStep(f, t, y, dt);
+    case 'rk4': return rk4Step(f, t, y, dt);
+    case 'rk45': return rk45Integrate(f, t, y, dt);
+  }
+};
@@ -0,0 +1,106 @@
+import { Agent, SimulationParameters } from './types';
+import { Derivative, integrate, SolverKind } from './integrators';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+const TWO_PI = 2 * Math.PI;
+
+export interface OrderParameter {
+  // Coherence r ∈ [0, 1]: 0 for scattered phases, 1 for full synchrony
+  r: number;
+  // Mean phase ψ
+  psi: number;
+}
+
+// r·e^{iψ} = (1/N)·Σ e^{iθ_j}
+export const orderParameter = (phases: number[]): OrderParameter => {
+  if (phases.length === 0) return { r: 0, psi: 0 };
+  let re = 0;
+  let im = 0;
+  for (const theta of phases) {
+    re += Math.cos(theta);
+    im += Math.sin(theta);
+  }
+  return { r: Math.hypot(re, im) / phases.length, psi: Math.atan2(im, re) };
+};
+
+// Natural frequencies are Gaussian around ω₀; agents keep their standardised offset so σ_ω can change mid-run
+export const naturalFrequency = (agent: Agent, { naturalFrequency: omega, frequencySpread }: SimulationParameters) =>
+  omega + frequencySpread * agent.frequencyOffset;
+
+/**
+ * Mean-field Kuramoto right-hand side, dθ_i/dt = ω_i + K·r·sin(ψ - θ_i),
+ * which equals ω_i + (K/N)·Σ_j sin(θ_j - θ_i) but costs O(N) per call.
+ */
+const kuramotoDerivative = (frequencies: number[], coupling: number): Derivative => (_t, phases) => {
+  const { r, psi } = orderParameter(phases);
+  return phases.map((theta, i) => frequencies[i] + coupling * r * Math.sin(psi - theta));
+};
+
+const wrap = (theta: number) => ((theta % TWO_PI) + TWO_PI) % TWO_PI;
+
+export const stepPhases = (
+  phases: number[],
+  frequencies: number[],
+  coupling: number,
+  solver: SolverKind,
+  t: number,
+  dt: number
+): number[] => integrate(solver, kuramotoDerivative(frequencies, coupling), t, phases, dt).map(wrap);
+
+/**
+ * Oscillators locked to the mean field: in the stationary mean-field state an
+ * oscillator locks when |ω_i - Ω| ≤ K·r, Ω being the mean natural frequency.
+ */
+export const lockedMask = (agents: Agent[], params: SimulationParameters, r: number): boolean[] => {
+  const frequencies = agents.map(agent => naturalFrequency(agent, params));
+  const mean = frequencies.reduce((a, b) => a + b, 0) / Math.max(1, frequencies.length);
+  return frequencies.map(omega => Math.abs(omega - mean) <= params.resonanceStrength * r);
+};
+
+export const lockedOscillators = (agents: Agent[], params: SimulationParameters, r: number) =>
+  lockedMask(agents, params, r).filter(Boolean).length;
+
+export interface SynchronizationOptions extends ProgressOptions {
+  // Natural frequencies of the oscillators, fixed across the curve
+  frequencies: number[];
+  couplings: number[];
+  // Simulated time per coupling; r is averaged over its second half, once transients have died out
+  horizon?: number;
+  dt?: number;
+}
+
+export interface SynchronizationPoint {
+  coupling: number;
+  r: number;
+}
+
+/**
+ * Stationary coherence against coupling for a fixed set of oscillators, the
+ * curve on which the synchronisation transition appears. Every coupling starts
+ * from the same evenly spread phases, the incoherent state the transition
+ * starts from, so the points differ only in K.
+ */
+export const runSynchronizationCurve = async (
+  { frequencies, couplings, horizon = 100, dt = 0.1, onProgress, signal }: SynchronizationOptions
+): Promise<SynchronizationPoint[]> => {
+  const steps = Math.round(horizon / dt);
+  const phases = frequencies.map((_, i) => (TWO_PI * i) / frequencies.length);
+  const curve: SynchronizationPoint[] = [];
+  for (const coupling of couplings) {
+    throwIfAborted(signal, 'Synchronization curve');
+    let current = phases;
+    let sum = 0;
+    let samples = 0;
+    for (let i = 1; i <= steps; i++) {
+      current = stepPhases(current, frequencies, coupling, 'rk4', i * dt, dt);
+      if (i > steps / 2) {
+        sum += orderParameter(current).r;
+        samples++;
+      }
+    }
+    curve.push({ coupling, r: samples > 0 ? sum / samples : orderParameter(current).r });
+    onProgress?.(curve.length, couplings.length);
+    await yieldToEventLoop();
+  }
+  return curve;
+};
@@ -0,0 +1,162 @@
+import { SimulationParameters } from './types';
+import { runTrajectory, Trajectory } from './trajectory';
+import { outputsFromTrajectory, SENSITIVITY_OUTPUTS, SensitivityOutput } from './sensitivity';
+import { axisValues, SweepAxis } from './sweep';
+import { contourSegments, ContourSegment } from './contours';
+import { linspace } from './parameterSpace';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+// The sweep outputs plus the resonance and emergence readouts at the horizon
+export type LandscapeObjective = SensitivityOutput | 'resonance' | 'emergence';
+
+export const LANDSCAPE_OBJECTIVES: LandscapeObjective[] = [...SENSITIVITY_OUTPUTS, 'resonance', 'emergence'];
+
+// Objectives spanning orders of magnitude are analysed and coloured as log10
+export const LOG_SCALED_OBJECTIVES: LandscapeObjective[] = ['finalIntelligence', 'emergence'];
+
+export type CriticalKind = 'minimum' | 'maximum' | 'saddle';
+
+export const CRITICAL_KINDS: CriticalKind[] = ['minimum', 'maximum', 'saddle'];
+
+export interface CriticalPoint {
+  kind: CriticalKind;
+  // Fractional grid position (x = column, y = row) of the stationary point
+  col: number;
+  row: number;
+  // The same position in parameter units
+  x: number;
+  y: number;
+  value: number;
+}
+
+export interface LandscapeOptions extends ProgressOptions {
+  x: SweepAxis;
+  y: SweepAxis;
+  objective: LandscapeObjective;
+  horizon: number;
+  // Number of contour levels traced between the surface's extremes
+  levels?: number;
+}
+
+export interface LandscapeContour {
+  level: number;
+  segments: ContourSegment[];
+}
+
+export interface LandscapeResult {
+  x: SweepAxis;
+  y: SweepAxis;
+  objective: LandscapeObjective;
+  xValues: number[];
+  yValues: number[];
+  // surface[row][col], log10 for log-scaled objectives; row follows the y axis
+  surface: number[][];
+  contours: LandscapeContour[];
+  criticalPoints: CriticalPoint[];
+}
+
+const objectiveFromTrajectory = (trajectory: Trajectory, horizon: number, objective: LandscapeObjective) => {
+  switch (objective) {
+    case 'resonance': return trajectory.final.metrics.resonance;
+    case 'emergence': return trajectory.final.metrics.emergentIntelligence;
+    default: return outputsFromTrajectory(trajectory, horizon)[objective];
+  }
+};
+
+// Second differences smaller than this share of the surface's range count as flat
+const FLATNESS = 1e-6;
+
+/**
+ * Critical points of a sampled surface from its local quadratic model. At
+ * each interior node the gradient and Hessian come from central differences
+ * in grid units; the Newton step -H⁻¹∇f locates the stationary point of the
+ * quadratic, which is kept when it falls within half a cell of the node, so
+ * each point is claimed by exactly one node. The Hessian's determinant and
+ * trace then classify it: det < 0 is a saddle, det > 0 an extremum whose
+ * sign of f_xx tells minimum from maximum. Flat patches are skipped.
+ */
+export const criticalPoints = (surface: number[][], xValues: number[], yValues: number[]): CriticalPoint[] => {
+  const flat = surface.flat().filter(Number.isFinite);
+  const range = flat.length > 0 ? Math.max(...flat) - Math.min(...flat) : 0;
+  if (range === 0) return [];
+  const tolerance = FLATNESS * range;
+  const at = (axis: number[], position: number) => {
+    const lower = Math.max(0, Math.min(axis.length - 2, Math.floor(position)));
+    return axis[lower] + (axis[lower + 1] - axis[lower]) * (position - lower);
+  };
+
+  const points: CriticalPoint[] = [];
+  for (let row = 1; row < surface.length - 1; row++) {
+    for (let col = 1; col < surface[row].length - 1; col++) {
+      const f = (dr: number, dc: number) => surface[row + dr][col + dc];
+      const neighbourhood = [-1, 0, 1].flatMap(dr => [-1, 0, 1].map(dc => f(dr, dc)));
+      if (!neighbourhood.every(Number.isFinite)) continue;
+
+      const fx = (f(0, 1) - f(0, -1)) / 2;
+      const fy = (f(1, 0) - f(-1, 0)) / 2;
+      const fxx = f(0, 1) - 2 * f(0, 0) + f(0, -1);
+      const fyy = f(1, 0) - 2 * f(0, 0) + f(-1, 0);
+      const fxy = (f(1, 1) - f(1, -1) - f(-1, 1) + f(-1, -1)) / 4;
+      const det = fxx * fyy - fxy * fxy;
+      if (Math.abs(det) <= tolerance * tolerance) continue;
+
+      const dx = -(fyy * fx - fxy * fy) / det;
+      const dy = -(fxx * fy - fxy * fx) / det;
+      if (Math.abs(dx) > 0.5 || Math.abs(dy) > 0.5) continue;
+
+      const kind: CriticalKind = det < 0 ? 'saddle' : fxx > 0 ? 'minimum' : 'maximum';
+      points.push({
+        kind,
+        col: col + dx,
+        row: row + dy,
+        x: at(xValues, col + dx),
+        y: at(yValues, row + dy),
+        value: f(0, 0) + (fx * dx + fy * dy) / 2
+      });
+    }
+  }
+  return points;
+};
+
+/**
+ * Evaluates the objective over the x × y slice, one headless run per cell,
+ * then traces its contours and locates its critical points.
+ */
+export const runLandscape = async (
+  params: SimulationParameters,
+  { x, y, objective, horizon, levels = 8, onProgress, signal }: LandscapeOptions
+): Promise<LandscapeResult> => {
+  const xValues = axisValues(x);
+  const yValues = axisValues(y);
+  const total = xValues.length * yValues.length;
+  const logScaled = LOG_SCALED_OBJECTIVES.includes(objective);
+  const surface: number[][] = [];
+
+  for (let row = 0; row < yValues.length; row++) {
+    throwIfAborted(signal, 'Resonance landscape');
+    surface.push(xValues.map(xValue => {
+      const cellParams = { ...params, [x.field]: xValue, [y.field]: yValues[row] };
+      const value = objectiveFromTrajectory(runTrajectory(cellParams, { horizon, sampleEvery: Number.MAX_SAFE_INTEGER }), horizon, objective);
+      return logScaled ? Math.log10(Math.max(value, Number.MIN_VALUE)) : value;
+    }));
+    onProgress?.((row + 1) * xValues.length, total);
+    await yieldToEventLoop();
+  }
+
+  const flat = surface.flat().filter(Number.isFinite);
+  const min = Math.min(...flat);
+  const max = Math.max(...flat);
+  // Levels strictly between the extremes, so none degenerates to a single cell
+  const contourLevels = max > min ? linspace(min, max, levels + 2).slice(1, -1) : [];
+
+  return {
+    x,
+    y,
+    objective,
+    xValues,
+    yValues,
+    surface,
+    contours: contourLevels.map(level => ({ level, segments: contourSegments(surface, level) })),
+    criticalPoints: criticalPoints(surface, xValues, yValues)
+  };
+};
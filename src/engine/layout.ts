@@ -0,0 +1,127 @@
+import { Layout } from './topology';
+import { Random } from './random';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutBounds {
+  width: number;
+  height: number;
+  padding: number;
+}
+
+export const FORCE_ITERATIONS = 300;
+
+const circle = (n: number, { width, height, padding }: LayoutBounds): Point[] => {
+  const radius = Math.min(width, height) / 2 - padding;
+  return Array.from({ length: n }, (_, i) => {
+    const angle = (i / n) * Math.PI * 2;
+    return { x: width / 2 + Math.cos(angle) * radius, y: height / 2 + Math.sin(angle) * radius };
+  });
+};
+
+const grid = (n: number, { width, height, padding }: LayoutBounds): Point[] => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(n)));
+  const rows = Math.max(1, Math.ceil(n / columns));
+  const cell = (extent: number, count: number, index: number) =>
+    count === 1 ? extent / 2 : padding + (index / (count - 1)) * (extent - 2 * padding);
+  return Array.from({ length: n }, (_, i) => ({
+    x: cell(width, columns, i % columns),
+    y: cell(height, rows, Math.floor(i / columns))
+  }));
+};
+
+// Levels are breadth-first distances from agent 0; unreachable agents share an extra bottom level
+const tree = (connections: number[][], { width, height, padding }: LayoutBounds): Point[] => {
+  const n = connections.length;
+  const depth = new Array<number>(n).fill(-1);
+  const queue = n > 0 ? [0] : [];
+  if (n > 0) depth[0] = 0;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of connections[current]) {
+      if (depth[next] === -1) {
+        depth[next] = depth[current] + 1;
+        queue.push(next);
+      }
+    }
+  }
+  const maxDepth = Math.max(0, ...depth);
+  const levelOf = depth.map(d => (d === -1 ? maxDepth + 1 : d));
+  const levels = Math.max(...levelOf, 0) + 1;
+  const members: number[][] = Array.from({ length: levels }, () => []);
+  levelOf.forEach((level, i) => members[level].push(i));
+
+  const positions: Point[] = new Array(n);
+  members.forEach((level, l) => {
+    level.forEach((agent, k) => {
+      positions[agent] = {
+        x: padding + ((k + 1) / (level.length + 1)) * (width - 2 * padding),
+        y: levels === 1 ? height / 2 : padding + (l / (levels - 1)) * (height - 2 * padding)
+      };
+    });
+  });
+  return positions;
+};
+
+/**
+ * Fruchterman–Reingold: agents repel as k²/d, linked agents attract as d²/k,
+ * and a cooling temperature caps each move. Starts from the circle with a
+ * seeded jitter, so the same graph and seed always give the same picture.
+ */
+const force = (connections: number[][], bounds: LayoutBounds, rng: Random): Point[] => {
+  const { width, height, padding } = bounds;
+  const n = connections.length;
+  const positions = circle(n, bounds).map(({ x, y }) => ({ x: x + rng.range(-5, 5), y: y + rng.range(-5, 5) }));
+  const k = Math.sqrt(((width - 2 * padding) * (height - 2 * padding)) / Math.max(1, n));
+  let temperature = width / 10;
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const displacement = positions.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const distance = Math.max(0.01, Math.hypot(dx, dy));
+        const push = (k * k) / distance;
+        displacement[i].x += (dx / distance) * push;
+        displacement[i].y += (dy / distance) * push;
+        displacement[j].x -= (dx / distance) * push;
+        displacement[j].y -= (dy / distance) * push;
+      }
+    }
+    connections.forEach((neighbours, i) => {
+      for (const j of neighbours) {
+        if (j <= i) continue;
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const distance = Math.max(0.01, Math.hypot(dx, dy));
+        const pull = (distance * distance) / k;
+        displacement[i].x -= (dx / distance) * pull;
+        displacement[i].y -= (dy / distance) * pull;
+        displacement[j].x += (dx / distance) * pull;
+        displacement[j].y += (dy / distance) * pull;
+      }
+    });
+    positions.forEach((position, i) => {
+      const { x, y } = displacement[i];
+      const length = Math.max(0.01, Math.hypot(x, y));
+      const step = Math.min(length, temperature);
+      position.x = Math.min(width - padding, Math.max(padding, position.x + (x / length) * step));
+      position.y = Math.min(height - padding, Math.max(padding, position.y + (y / length) * step));
+    });
+    temperature *= 0.98;
+  }
+  return positions;
+};
+
+export const layoutNetwork = (connections: number[][], layout: Layout, bounds: LayoutBounds, rng: Random): Point[] => {
+  switch (layout) {
+    case 'circle': return circle(connections.length, bounds);
+    case 'grid': return grid(connections.length, bounds);
+    case 'tree': return tree(connections, bounds);
+    case 'force': return force(connections, bounds, rng);
+  }
+};
@@ -0,0 +1,49 @@
+import { ComplexityEstimate, SimulationParameters } from './types';
+import { DEFAULT_TOPOLOGY } from './topology';
+import { DEFAULT_POPULATION_MIX } from './archetypes';
+
+export const DEFAULT_PARAMETERS: SimulationParameters = {
+  alpha: 0.44,
+  delta: 0.17,
+  agentCount: 13,
+  ethicalThreshold: 0.8,
+  resonanceStrength: 1.2,
+  naturalFrequency: 1,
+  frequencySpread: 0.6,
+  parameterN: 13,
+  initialIntelligence: 1.0,
+  initialHypotheses: 100,
+  regime: 'exponential',
+  carryingCapacity: 5000,
+  computeBudget: 2000,
+  growthModel: 'analytic',
+  solver: 'rk4',
+  saturation: 0,
+  feedback: 0,
+  damping: 0,
+  seed: 42,
+  noiseModel: 'none',
+  noiseVolatility: 0.2,
+  noiseReversion: 0.5,
+  governors: [],
+  exchangeRate: 0.1,
+  coupling: 0.001,
+  couplingPreset: 'uniform',
+  couplingMatrix: null,
+  topology: DEFAULT_TOPOLOGY,
+  networkEdits: [],
+  populationMix: DEFAULT_POPULATION_MIX
+};
+
+export const I_ASI = 1000; // Target ASI intelligence
+
+// ASI progress (when intelligence > 100x human baseline)
+export const asiProgressFor = (intelligence: number) =>
+  Math.min(100, Math.max(0, (intelligence - 100) / 900 * 100));
+
+export const calculateComplexity = (n: number): ComplexityEstimate => ({
+  traditional: Math.pow(2, n),
+  hybrid: n * n,
+  acceleration: Math.pow(2, n) / (n * n),
+  timeSaved: (1 - (n * n) / Math.pow(2, n)) * 100
+});
@@ -0,0 +1,43 @@
+import { NoiseFactors, NoiseModel, SimulationParameters } from './types';
+import { Random } from './random';
+
+export const NEUTRAL_NOISE: NoiseFactors = { alpha: 1, delta: 1 };
+
+/**
+ * One Euler–Maruyama step of a multiplicative noise factor applied to α or δ.
+ * Ornstein–Uhlenbeck reverts to 1 with speed θ and volatility σ; geometric
+ * Brownian motion wanders freely but stays positive. Working with factors
+ * rather than raw rates keeps the sliders live while a noisy run is going.
+ */
+const stepFactor = (
+  model: NoiseModel,
+  factor: number,
+  dt: number,
+  { noiseVolatility: sigma, noiseReversion: theta }: SimulationParameters,
+  rng: Random
+): number => {
+  switch (model) {
+    case 'none':
+      return 1;
+    case 'ornstein-uhlenbeck':
+      return Math.max(1e-6, factor + theta * (1 - factor) * dt + sigma * Math.sqrt(dt) * rng.normal());
+    case 'gbm':
+      return factor * Math.exp(-0.5 * sigma * sigma * dt + sigma * Math.sqrt(dt) * rng.normal());
+  }
+};
+
+export const stepNoise = (
+  noise: NoiseFactors,
+  params: SimulationParameters,
+  dt: number,
+  rng: Random
+): NoiseFactors => ({
+  alpha: stepFactor(params.noiseModel, noise.alpha, dt, params, rng),
+  delta: stepFactor(params.noiseModel, noise.delta, dt, params, rng)
+});
+
+export const applyNoise = (params: SimulationParameters, noise: NoiseFactors): SimulationParameters => ({
+  ...params,
+  alpha: params.alpha * noise.alpha,
+  delta: params.delta * noise.delta
+});
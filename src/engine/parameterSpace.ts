@@ -0,0 +1,38 @@
+import { SimulationParameters } from './types';
+
+export type NumericParameter = {
+  [K in keyof SimulationParameters]: SimulationParameters[K] extends number ? K : never;
+}[keyof SimulationParameters];
+
+// Explorable ranges, following the control-panel sliders
+export const PARAMETER_RANGES: Partial<Record<NumericParameter, [number, number]>> = {
+  alpha: [0.1, 0.9],
+  delta: [0.05, 0.5],
+  agentCount: [5, 30],
+  resonanceStrength: [0.5, 2],
+  frequencySpread: [0.1, 2],
+  ethicalThreshold: [0.1, 1],
+  initialIntelligence: [0.1, 10],
+  initialHypotheses: [10, 1000],
+  carryingCapacity: [100, 20000],
+  computeBudget: [10, 10000],
+  noiseVolatility: [0, 1],
+  exchangeRate: [0, 1],
+  coupling: [0, 0.01]
+};
+
+export const EXPLORABLE_PARAMETERS = Object.keys(PARAMETER_RANGES) as NumericParameter[];
+
+const INTEGER_PARAMETERS: NumericParameter[] = ['agentCount'];
+
+export const coerceParameter = (field: NumericParameter, value: number) =>
+  INTEGER_PARAMETERS.includes(field) ? Math.round(value) : value;
+
+// Maps a unit coordinate onto the parameter's range
+export const scaleParameter = (field: NumericParameter, unit: number) => {
+  const [min, max] = PARAMETER_RANGES[field] ?? [0, 1];
+  return coerceParameter(field, min + (max - min) * unit);
+};
+
+export const linspace = (min: number, max: number, count: number): number[] =>
+  count <= 1 ? [min] : Array.from({ length: count }, (_, i) => min + (max - min) * i / (count - 1));
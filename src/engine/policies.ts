@@ -0,0 +1,34 @@
+import { GovernorId, SimulationParameters } from './types';
+import { runTrajectory, Trajectory } from './trajectory';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+export interface PolicyComparisonOptions extends ProgressOptions {
+  // Governor sets to compare; an empty set is the unguarded run
+  policies: GovernorId[][];
+  horizon: number;
+  sampleEvery?: number;
+}
+
+export interface PolicyComparison {
+  policies: GovernorId[][];
+  // One trajectory per policy, in the same order
+  trajectories: Trajectory[];
+}
+
+/**
+ * Runs the same simulation once per alignment policy, each from reset with
+ * the simulation's own seed, so the trajectories differ only by governor.
+ */
+export const runPolicyComparison = async (
+  params: SimulationParameters,
+  { policies, horizon, sampleEvery = 5, onProgress, signal }: PolicyComparisonOptions
+): Promise<PolicyComparison> => {
+  const trajectories: Trajectory[] = [];
+  for (const governors of policies) {
+    throwIfAborted(signal, 'Policy comparison');
+    trajectories.push(runTrajectory({ ...params, governors }, { horizon, sampleEvery }));
+    onProgress?.(trajectories.length, policies.length);
+    await yieldToEventLoop();
+  }
+  return { policies, trajectories };
+};
@@ -0,0 +1,60 @@
+/**
+ * Seeded PRNG (mulberry32). The whole generator state is a single 32-bit
+ * integer, so it can be stored in `SimulationState` and a run replays exactly
+ * from the same seed.
+ */
+export class Random {
+  private current: number;
+
+  constructor(seed: number) {
+    this.current = seed >>> 0;
+  }
+
+  get state() {
+    return this.current;
+  }
+
+  next(): number {
+    this.current = (this.current + 0x6d2b79f5) >>> 0;
+    let t = this.current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  // Fisher–Yates shuffle in place
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  // Standard normal via Box–Muller; the second variate is discarded so the
+  // integer state above stays the complete generator state
+  normal(): number {
+    const u = 1 - this.next();
+    const v = this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+// Derives an independent stream for a named consumer, e.g. deriveSeed(seed, 'agents')
+export const deriveSeed = (seed: number, stream: string): number => {
+  let hash = (seed ^ 0x9e3779b9) >>> 0;
+  for (let i = 0; i < stream.length; i++) {
+    hash = Math.imul(hash ^ stream.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
@@ -0,0 +1,61 @@
+import { GrowthRegime, SimulationParameters } from './types';
+import { FORMULAS, FormulaId } from './formulas';
+
+export interface RegimeDefinition {
+  formulas: {
+    intelligence: FormulaId;
+    hypotheses: FormulaId;
+    asiTime: FormulaId;
+  };
+  intelligence: (t: number, params: SimulationParameters) => number;
+  hypotheses: (t: number, params: SimulationParameters) => number;
+  asiTime: (params: SimulationParameters) => number;
+  // Base rates [dI/dt, dQ/dt] before the optional saturation/feedback/damping terms
+  rates: (intelligence: number, hypotheses: number, params: SimulationParameters) => [number, number];
+}
+
+const exponentialHypotheses = (t: number, params: SimulationParameters) => FORMULAS.hypotheses.evaluate(t, params);
+
+export const GROWTH_REGIMES: Record<GrowthRegime, RegimeDefinition> = {
+  exponential: {
+    formulas: { intelligence: 'intelligence', hypotheses: 'hypotheses', asiTime: 'asiTime' },
+    intelligence: (t, params) => FORMULAS.intelligence.evaluate(t, params),
+    hypotheses: exponentialHypotheses,
+    asiTime: params => FORMULAS.asiTime.evaluate(params),
+    rates: (_I, Q, { alpha, delta }) => [delta * Q, alpha * Q]
+  },
+  logistic: {
+    formulas: { intelligence: 'logisticIntelligence', hypotheses: 'hypotheses', asiTime: 'logisticAsiTime' },
+    intelligence: (t, params) => FORMULAS.logisticIntelligence.evaluate(t, params),
+    hypotheses: exponentialHypotheses,
+    asiTime: params => FORMULAS.logisticAsiTime.evaluate(params),
+    rates: (I, Q, { alpha, delta, carryingCapacity }) => [delta * Q * (1 - I / carryingCapacity), alpha * Q]
+  },
+  gompertz: {
+    formulas: { intelligence: 'gompertzIntelligence', hypotheses: 'hypotheses', asiTime: 'gompertzAsiTime' },
+    intelligence: (t, params) => FORMULAS.gompertzIntelligence.evaluate(t, params),
+    hypotheses: exponentialHypotheses,
+    asiTime: params => FORMULAS.gompertzAsiTime.evaluate(params),
+    rates: (I, Q, { alpha, delta, carryingCapacity }) => {
+      const level = Math.max(I, Number.MIN_VALUE);
+      return [delta * Q * (level / carryingCapacity) * Math.log(carryingCapacity / level), alpha * Q];
+    }
+  },
+  compute: {
+    formulas: { intelligence: 'computeIntelligence', hypotheses: 'computeHypotheses', asiTime: 'computeAsiTime' },
+    intelligence: (t, params) => FORMULAS.computeIntelligence.evaluate(t, params),
+    hypotheses: (t, params) => FORMULAS.computeHypotheses.evaluate(t, params),
+    asiTime: params => FORMULAS.computeAsiTime.evaluate(params),
+    rates: (_I, Q, { alpha, delta, computeBudget }) => [delta * Q, Math.min(alpha * Q, computeBudget)]
+  }
+};
+
+export const GROWTH_REGIME_IDS = Object.keys(GROWTH_REGIMES) as GrowthRegime[];
+
+// Maps a generic formula card (intelligence, hypotheses, ASI time) to the active regime's variant
+export const regimeFormula = (regime: GrowthRegime, formula: FormulaId): FormulaId =>
+  formula in GROWTH_REGIMES[regime].formulas
+    ? GROWTH_REGIMES[regime].formulas[formula as keyof RegimeDefinition['formulas']]
+    : formula;
+
+export const estimateASITime = (params: SimulationParameters) => GROWTH_REGIMES[params.regime].asiTime(params);
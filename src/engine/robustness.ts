@@ -0,0 +1,170 @@
+import { AgentArchetype, NetworkEdit, SimulationParameters, SimulationState } from './types';
+import { SimulationEngine } from './SimulationEngine';
+import { FIXED_TIMESTEP } from './clock';
+import { deriveSeed, Random } from './random';
+import { networkEditPatch } from './agents';
+import { graphMetrics } from './graph';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+// Failed agents drop out of the network; flipped agents turn adversarial
+export type FailureMode = 'kill' | 'flip';
+
+// Random failures or attacks on the most central agent
+export type FailureTargeting = 'random' | 'targeted';
+
+export const FAILURE_MODES: FailureMode[] = ['kill', 'flip'];
+export const FAILURE_TARGETINGS: FailureTargeting[] = ['random', 'targeted'];
+
+export const FLIPPED_ARCHETYPE: AgentArchetype = 'adversarial';
+
+export interface RobustnessOptions extends ProgressOptions {
+  mode: FailureMode;
+  targeting: FailureTargeting;
+  horizon: number;
+  // Time of the first perturbation and spacing between the following ones
+  onset: number;
+  interval: number;
+  // Agents perturbed in total; killing always leaves at least one
+  count: number;
+  // Independent seeds averaged together; the first is the simulation's own seed
+  trials?: number;
+  sampleEvery?: number;
+}
+
+export interface RobustnessSample {
+  time: number;
+  baselineEmergence: number;
+  perturbedEmergence: number;
+  baselineEthics: number;
+  perturbedEthics: number;
+}
+
+export interface Perturbation {
+  time: number;
+  agent: number;
+}
+
+export interface RobustnessResult {
+  samples: RobustnessSample[];
+  // Schedule of the first trial; later trials may pick other agents
+  perturbations: Perturbation[];
+  // Perturbed over baseline emergent intelligence at the horizon
+  emergenceRatio: number;
+  // Perturbed minus baseline ethics score at the horizon
+  ethicsChange: number;
+  // Largest relative shortfall of emergent intelligence over the run
+  peakEmergenceLoss: number;
+}
+
+const engine = new SimulationEngine();
+
+// Highest betweenness wins, then highest degree, then the lowest index
+const mostCentral = (state: SimulationState, candidates: number[]) => {
+  const { betweenness, degree } = graphMetrics(state.network.agents.map(agent => agent.connections));
+  return candidates.reduce((best, agent) =>
+    betweenness[agent] > betweenness[best] || (betweenness[agent] === betweenness[best] && degree[agent] > degree[best])
+      ? agent
+      : best
+  );
+};
+
+const chooseTarget = (state: SimulationState, mode: FailureMode, targeting: FailureTargeting, rng: Random): number | null => {
+  const { agents } = state.network;
+  const candidates = mode === 'kill'
+    ? agents.length > 1 ? agents.map(agent => agent.id) : []
+    : agents.filter(agent => agent.archetype !== FLIPPED_ARCHETYPE).map(agent => agent.id);
+  if (candidates.length === 0) return null;
+  return targeting === 'random' ? candidates[rng.int(candidates.length)] : mostCentral(state, candidates);
+};
+
+const failureEdit = (mode: FailureMode, agent: number): NetworkEdit =>
+  mode === 'kill' ? { kind: 'remove-agent', agent } : { kind: 'set-archetype', agent, archetype: FLIPPED_ARCHETYPE };
+
+interface RunSample {
+  time: number;
+  emergence: number;
+  ethics: number;
+}
+
+// One run from reset; with no schedule it is the unperturbed baseline
+const runWithFailures = (
+  params: SimulationParameters,
+  options: RobustnessOptions | null,
+  dt: number,
+  steps: number,
+  sampleEvery: number
+) => {
+  const rng = new Random(deriveSeed(params.seed, 'failures'));
+  const schedule = options
+    ? Array.from({ length: Math.max(0, Math.round(options.count)) }, (_, k) => Math.round((options.onset + k * options.interval) / dt))
+    : [];
+  let current = params;
+  let state = engine.reset(current);
+  const samples: RunSample[] = [];
+  const perturbations: Perturbation[] = [];
+  const record = () => samples.push({ time: state.time, emergence: state.metrics.emergentIntelligence, ethics: state.metrics.ethicalScore });
+  record();
+
+  for (let i = 1; i <= steps; i++) {
+    for (const due of schedule) {
+      if (due !== i - 1 || !options) continue;
+      const agent = chooseTarget(state, options.mode, options.targeting, rng);
+      if (agent === null) continue;
+      current = { ...current, ...networkEditPatch(current, failureEdit(options.mode, agent)) };
+      perturbations.push({ time: state.time, agent });
+    }
+    state = engine.step(state, current, dt);
+    if (i % sampleEvery === 0) record();
+  }
+  return { samples, perturbations };
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+
+/**
+ * Runs the simulation with and without a failure schedule on the same seeds
+ * and averages both over the trials. Each trial's baseline and perturbed run
+ * share a seed, so differences come from the failures alone.
+ */
+export const runRobustnessExperiment = async (
+  params: SimulationParameters,
+  options: RobustnessOptions
+): Promise<RobustnessResult> => {
+  const { horizon, trials = 1, sampleEvery = 5, onProgress, signal } = options;
+  const total = Math.max(1, Math.round(trials));
+  const dt = FIXED_TIMESTEP;
+  const steps = Math.round(horizon / dt);
+  const baselines: RunSample[][] = [];
+  const perturbedRuns: RunSample[][] = [];
+  let perturbations: Perturbation[] = [];
+
+  for (let trial = 0; trial < total; trial++) {
+    throwIfAborted(signal, 'Robustness experiment');
+    const seeded = { ...params, seed: trial === 0 ? params.seed : deriveSeed(params.seed, `robustness-${trial}`) };
+    baselines.push(runWithFailures(seeded, null, dt, steps, sampleEvery).samples);
+    const perturbed = runWithFailures(seeded, options, dt, steps, sampleEvery);
+    perturbedRuns.push(perturbed.samples);
+    if (trial === 0) perturbations = perturbed.perturbations;
+    onProgress?.(trial + 1, total);
+    await yieldToEventLoop();
+  }
+
+  const samples = baselines[0].map(({ time }, i) => ({
+    time,
+    baselineEmergence: mean(baselines.map(run => run[i].emergence)),
+    perturbedEmergence: mean(perturbedRuns.map(run => run[i].emergence)),
+    baselineEthics: mean(baselines.map(run => run[i].ethics)),
+    perturbedEthics: mean(perturbedRuns.map(run => run[i].ethics))
+  }));
+  const last = samples[samples.length - 1];
+  const shortfall = (sample: RobustnessSample) =>
+    sample.baselineEmergence > 0 ? 1 - sample.perturbedEmergence / sample.baselineEmergence : 0;
+
+  return {
+    samples,
+    perturbations,
+    emergenceRatio: last.baselineEmergence > 0 ? last.perturbedEmergence / last.baselineEmergence : 1,
+    ethicsChange: last.perturbedEthics - last.baselineEthics,
+    peakEmergenceLoss: Math.max(0, ...samples.map(shortfall))
+  };
+};
@@ -0,0 +1,234 @@
+import { SimulationParameters } from './types';
+import { Random } from './random';
+import { runTrajectory, Trajectory } from './trajectory';
+import { mean, variance } from './statistics';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+import { scaleParameter } from './parameterSpace';
+
+export type SensitivityFactor = 'alpha' | 'delta' | 'agentCount' | 'resonanceStrength' | 'ethicalThreshold';
+
+export type SensitivityOutput = 'asiTime' | 'finalIntelligence' | 'finalEthicalScore';
+
+export const SENSITIVITY_FACTORS: SensitivityFactor[] = ['alpha', 'delta', 'agentCount', 'resonanceStrength', 'ethicalThreshold'];
+
+export const SENSITIVITY_OUTPUTS: SensitivityOutput[] = ['asiTime', 'finalIntelligence', 'finalEthicalScore'];
+
+export type OutputValues = Record<SensitivityOutput, number>;
+
+export interface SensitivityOptions extends ProgressOptions {
+  horizon: number;
+  factors?: SensitivityFactor[];
+}
+
+export interface TornadoEntry {
+  factor: SensitivityFactor;
+  low: OutputValues;
+  high: OutputValues;
+}
+
+export interface TornadoResult {
+  baseline: OutputValues;
+  entries: TornadoEntry[];
+}
+
+export interface MorrisIndex {
+  factor: SensitivityFactor;
+  mu: number;
+  muStar: number;
+  sigma: number;
+}
+
+export type MorrisResult = Record<SensitivityOutput, MorrisIndex[]>;
+
+export interface SobolIndex {
+  factor: SensitivityFactor;
+  firstOrder: number;
+  totalOrder: number;
+}
+
+export type SobolResult = Record<SensitivityOutput, SobolIndex[]>;
+
+/**
+ * Evaluates every output from one headless run. ASI time is censored at the
+ * horizon when intelligence never crosses the threshold, so it stays finite
+ * for the variance-based estimators.
+ */
+export const outputsFromTrajectory = ({ asiTime, final }: Trajectory, horizon: number): OutputValues => ({
+  asiTime: asiTime ?? horizon,
+  finalIntelligence: final.metrics.intelligence,
+  finalEthicalScore: final.metrics.ethicalScore
+});
+
+export const evaluateOutputs = (params: SimulationParameters, horizon: number): OutputValues =>
+  outputsFromTrajectory(runTrajectory(params, { horizon, sampleEvery: Number.MAX_SAFE_INTEGER }), horizon);
+
+const withFactors = (base: SimulationParameters, factors: SensitivityFactor[], point: number[]): SimulationParameters => {
+  const params = { ...base };
+  factors.forEach((factor, i) => {
+    params[factor] = scaleParameter(factor, point[i]);
+  });
+  return params;
+};
+
+const outputsOf = <T>(build: (output: SensitivityOutput) => T) =>
+  Object.fromEntries(SENSITIVITY_OUTPUTS.map(output => [output, build(output)])) as Record<SensitivityOutput, T>;
+
+// Evaluates a batch of parameter sets, yielding to the event loop between chunks
+const evaluateBatch = async (
+  batch: SimulationParameters[],
+  { horizon, onProgress, signal }: SensitivityOptions,
+  label: string,
+  chunkSize = 25
+): Promise<OutputValues[]> => {
+  const results: OutputValues[] = [];
+  for (let i = 0; i < batch.length; i++) {
+    throwIfAborted(signal, label);
+    results.push(evaluateOutputs(batch[i], horizon));
+    if ((i + 1) % chunkSize === 0) {
+      onProgress?.(i + 1, batch.length);
+      await yieldToEventLoop();
+    }
+  }
+  onProgress?.(batch.length, batch.length);
+  return results;
+};
+
+// One-at-a-time swing of each factor between its range limits around the current parameters
+export const runTornado = async (
+  params: SimulationParameters,
+  options: SensitivityOptions
+): Promise<TornadoResult> => {
+  const factors = options.factors ?? SENSITIVITY_FACTORS;
+  const batch = [
+    params,
+    ...factors.flatMap(factor => [
+      { ...params, [factor]: scaleParameter(factor, 0) },
+      { ...params, [factor]: scaleParameter(factor, 1) }
+    ])
+  ];
+  const [baseline, ...swings] = await evaluateBatch(batch, options, 'Tornado analysis');
+  return {
+    baseline,
+    entries: factors.map((factor, i) => ({ factor, low: swings[2 * i], high: swings[2 * i + 1] }))
+  };
+};
+
+/**
+ * Morris elementary-effects screening: `trajectories` random one-at-a-time
+ * paths on a p-level grid. μ* ranks overall influence, σ flags non-linearity
+ * or interactions. Effects are normalised to the unit range of each factor.
+ */
+export const runMorris = async (
+  params: SimulationParameters,
+  { trajectories = 20, levels = 4, ...options }: SensitivityOptions & { trajectories?: number; levels?: number }
+): Promise<MorrisResult> => {
+  const factors = options.factors ?? SENSITIVITY_FACTORS;
+  const k = factors.length;
+  const step = levels / (2 * (levels - 1));
+  const rng = new Random(params.seed);
+
+  const paths: { points: number[][]; order: number[]; signs: number[] }[] = [];
+  for (let r = 0; r < trajectories; r++) {
+    // Start low enough on the grid that every move of ±step stays inside [0, 1]
+    const start = factors.map(() => rng.int(levels / 2) / (levels - 1));
+    const order = rng.shuffle(factors.map((_, i) => i));
+    const signs = factors.map(() => (rng.next() < 0.5 ? -1 : 1));
+    const base = start.map((value, i) => (signs[i] < 0 ? value + step : value));
+    const points = [base];
+    for (const index of order) {
+      const next = [...points[points.length - 1]];
+      next[index] += signs[index] * step;
+      points.push(next);
+    }
+    paths.push({ points, order, signs });
+  }
+
+  const batch = paths.flatMap(path => path.points.map(point => withFactors(params, factors, point)));
+  const values = await evaluateBatch(batch, { ...options, factors }, 'Morris screening');
+
+  return outputsOf(output => {
+    const effects: number[][] = factors.map(() => []);
+    paths.forEach((path, r) => {
+      path.order.forEach((index, j) => {
+        const before = values[r * (k + 1) + j][output];
+        const after = values[r * (k + 1) + j + 1][output];
+        effects[index].push((after - before) / (path.signs[index] * step));
+      });
+    });
+    return factors.map((factor, i) => ({
+      factor,
+      mu: mean(effects[i]),
+      muStar: mean(effects[i].map(Math.abs)),
+      sigma: Math.sqrt(variance(effects[i]))
+    }));
+  });
+};
+
+/**
+ * Variance-based Sobol indices with the Saltelli A/B/AB_i scheme: first-order
+ * via the Saltelli (2010) estimator, total-order via Jansen's. Costs
+ * samples·(k + 2) runs.
+ */
+export const runSobol = async (
+  params: SimulationParameters,
+  { samples = 256, ...options }: SensitivityOptions & { samples?: number }
+): Promise<SobolResult> => {
+  const factors = options.factors ?? SENSITIVITY_FACTORS;
+  const rng = new Random(params.seed);
+  const A = Array.from({ length: samples }, () => factors.map(() => rng.next()));
+  const B = Array.from({ length: samples }, () => factors.map(() => rng.next()));
+  const AB = factors.map((_, i) => A.map((row, n) => row.map((value, j) => (j === i ? B[n][j] : value))));
+
+  const batch = [...A, ...B, ...AB.flat()].map(point => withFactors(params, factors, point));
+  const values = await evaluateBatch(batch, { ...options, factors }, 'Sobol analysis');
+  const fA = values.slice(0, samples);
+  const fB = values.slice(samples, 2 * samples);
+  const fAB = factors.map((_, i) => values.slice((2 + i) * samples, (3 + i) * samples));
+
+  return outputsOf(output => {
+    const totalVariance = variance([...fA, ...fB].map(v => v[output]));
+    return factors.map((factor, i) => {
+      if (totalVariance === 0) return { factor, firstOrder: 0, totalOrder: 0 };
+      let first = 0;
+      let total = 0;
+      for (let n = 0; n < samples; n++) {
+        const a = fA[n][output];
+        const b = fB[n][output];
+        const ab = fAB[i][n][output];
+        first += b * (ab - a);
+        total += (a - ab) ** 2;
+      }
+      return {
+        factor,
+        firstOrder: first / samples / totalVariance,
+        totalOrder: total / (2 * samples) / totalVariance
+      };
+    });
+  });
+};
+
+
+export interface SensitivityAnalysis {
+  tornado: TornadoResult;
+  morris: MorrisResult;
+  sobol: SobolResult;
+}
+
+// Runs all three analyses in sequence, reporting progress as one job
+export const runSensitivityAnalysis = async (
+  params: SimulationParameters,
+  { trajectories = 20, samples = 256, ...options }: SensitivityOptions & { trajectories?: number; samples?: number }
+): Promise<SensitivityAnalysis> => {
+  const k = (options.factors ?? SENSITIVITY_FACTORS).length;
+  const costs = [2 * k + 1, trajectories * (k + 1), samples * (k + 2)];
+  const total = costs[0] + costs[1] + costs[2];
+  const phase = (offset: number): SensitivityOptions => ({
+    ...options,
+    onProgress: completed => options.onProgress?.(offset + completed, total)
+  });
+
+  const tornado = await runTornado(params, phase(0));
+  const morris = await runMorris(params, { ...phase(costs[0]), trajectories });
+  const sobol = await runSobol(params, { ...phase(costs[0] + costs[1]), samples });
+  return { tornado, morris, sobol };
+};
@@ -0,0 +1,187 @@
+import { SimulationParameters } from './types';
+import { SimulationEngine } from './SimulationEngine';
+import { FIXED_TIMESTEP } from './clock';
+import { networkActivity } from './agents';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+export interface SpectralOptions extends ProgressOptions {
+  horizon: number;
+  // Samples per FFT segment, rounded down to a power of two
+  windowSize?: number;
+  // Samples between consecutive spectrogram columns
+  hop?: number;
+  peaks?: number;
+}
+
+export interface SpectralPeak {
+  frequency: number;
+  power: number;
+}
+
+export interface SpectrogramColumn {
+  // Centre of the segment
+  time: number;
+  power: number[];
+}
+
+export interface SpectralResult {
+  sampleRate: number;
+  // Bin centres in Hz, shared by every spectrum below
+  frequencies: number[];
+  // Welch PSD of the network's mean activity
+  collective: number[];
+  // Welch PSD of each agent's activity
+  agents: number[][];
+  // Dominant frequency of each agent
+  agentPeaks: number[];
+  peaks: SpectralPeak[];
+  spectrogram: SpectrogramColumn[];
+  // ω₀/2π, where the phase oscillators put their power when they lock
+  naturalFrequency: number;
+}
+
+const engine = new SimulationEngine();
+
+// Steps between yields to the event loop while recording
+const RECORD_CHUNK = 100;
+
+export const largestPowerOfTwo = (n: number) => (n < 1 ? 0 : 2 ** Math.floor(Math.log2(n)));
+
+/**
+ * In-place iterative radix-2 Cooley–Tukey transform; the length must be a
+ * power of two.
+ */
+export const fft = (re: number[], im: number[]) => {
+  const n = re.length;
+  if (n & (n - 1)) throw new Error(`FFT length ${n} is not a power of two`);
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+const hann = (n: number) => Array.from({ length: n }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n));
+
+// One-sided periodogram of a mean-removed, Hann-windowed segment, scaled to power per Hz
+const periodogram = (segment: number[], window: number[], sampleRate: number): number[] => {
+  const n = segment.length;
+  const mean = segment.reduce((a, b) => a + b, 0) / n;
+  const re = segment.map((value, i) => (value - mean) * window[i]);
+  const im = new Array<number>(n).fill(0);
+  fft(re, im);
+  const scale = 1 / (sampleRate * window.reduce((sum, w) => sum + w * w, 0));
+  return Array.from({ length: n / 2 + 1 }, (_, k) => {
+    const power = (re[k] * re[k] + im[k] * im[k]) * scale;
+    return k === 0 || k === n / 2 ? power : 2 * power;
+  });
+};
+
+export const frequencyBins = (windowSize: number, sampleRate: number) =>
+  Array.from({ length: windowSize / 2 + 1 }, (_, k) => (k * sampleRate) / windowSize);
+
+/**
+ * Short-time spectra of `signal` over segments of `windowSize` samples,
+ * `hop` samples apart.
+ */
+export const spectrogram = (signal: number[], sampleRate: number, windowSize: number, hop: number): SpectrogramColumn[] => {
+  const window = hann(windowSize);
+  const columns: SpectrogramColumn[] = [];
+  for (let start = 0; start + windowSize <= signal.length; start += Math.max(1, hop)) {
+    columns.push({
+      time: (start + windowSize / 2) / sampleRate,
+      power: periodogram(signal.slice(start, start + windowSize), window, sampleRate)
+    });
+  }
+  return columns;
+};
+
+// Welch's method: periodograms of half-overlapping segments, averaged to cut the variance
+export const powerSpectralDensity = (signal: number[], sampleRate: number, windowSize: number): number[] => {
+  const columns = spectrogram(signal, sampleRate, windowSize, windowSize / 2);
+  if (columns.length === 0) return new Array<number>(windowSize / 2 + 1).fill(0);
+  return columns[0].power.map((_, k) => columns.reduce((sum, column) => sum + column.power[k], 0) / columns.length);
+};
+
+// Local maxima above the DC bin, strongest first
+export const dominantPeaks = (frequencies: number[], power: number[], count: number): SpectralPeak[] => {
+  const peaks: SpectralPeak[] = [];
+  for (let k = 1; k < power.length; k++) {
+    const left = power[k - 1];
+    const right = k + 1 < power.length ? power[k + 1] : -Infinity;
+    if (power[k] > left && power[k] >= right) peaks.push({ frequency: frequencies[k], power: power[k] });
+  }
+  return peaks.sort((a, b) => b.power - a.power).slice(0, count);
+};
+
+/**
+ * Records every agent's activity over a headless run from reset and returns
+ * the power spectra of the individual and collective signals. Locked
+ * oscillators share the mean-field frequency and pile their power into one
+ * peak; drifting ones spread it over their own natural frequencies.
+ */
+export const runSpectralAnalysis = async (
+  params: SimulationParameters,
+  { horizon, windowSize = 256, hop, peaks = 3, onProgress, signal }: SpectralOptions
+): Promise<SpectralResult> => {
+  const dt = FIXED_TIMESTEP;
+  const sampleRate = 1 / dt;
+  const steps = Math.round(horizon / dt);
+  let state = engine.reset(params);
+  const series: number[][] = [networkActivity(state.network)];
+
+  for (let i = 1; i <= steps; i++) {
+    state = engine.step(state, params, dt);
+    series.push(networkActivity(state.network));
+    if (i % RECORD_CHUNK === 0) {
+      throwIfAborted(signal, 'Spectral analysis');
+      onProgress?.(i, steps);
+      await yieldToEventLoop();
+    }
+  }
+  onProgress?.(steps, steps);
+
+  // Agents added or removed by edits mid-run would break the series, so only the original ones are tracked
+  const n = series[0].length;
+  const size = Math.max(2, largestPowerOfTwo(Math.min(windowSize, series.length)));
+  const frequencies = frequencyBins(size, sampleRate);
+  const agentSignals = Array.from({ length: n }, (_, i) => series.map(sample => sample[i] ?? 0));
+  const collectiveSignal = series.map(sample => sample.slice(0, n).reduce((a, b) => a + b, 0) / Math.max(1, n));
+
+  const agents = agentSignals.map(values => powerSpectralDensity(values, sampleRate, size));
+  const collective = powerSpectralDensity(collectiveSignal, sampleRate, size);
+
+  return {
+    sampleRate,
+    frequencies,
+    collective,
+    agents,
+    agentPeaks: agents.map(power => dominantPeaks(frequencies, power, 1)[0]?.frequency ?? 0),
+    peaks: dominantPeaks(frequencies, collective, peaks),
+    spectrogram: spectrogram(collectiveSignal, sampleRate, size, hop ?? size / 8),
+    naturalFrequency: params.naturalFrequency / (2 * Math.PI)
+  };
+};
@@ -0,0 +1,66 @@
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Linear-interpolated quantile of an ascending-sorted sample, p in [0, 1]
+export const quantile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const mean = (values: ArrayLike<number>): number => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : NaN;
+};
+
+export const variance = (values: ArrayLike<number>): number => {
+  const average = mean(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += (values[i] - average) ** 2;
+  return values.length > 1 ? sum / (values.length - 1) : 0;
+};
+
+export const histogram = (values: number[], binCount: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0
+  }));
+  for (const value of values) {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  }
+  return bins;
+};
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  // Coefficient of determination; 1 when the points are collinear or y is constant
+  rSquared: number;
+}
+
+// Ordinary least squares fit of y = slope·x + intercept
+export const linearFit = (xs: ArrayLike<number>, ys: ArrayLike<number>): LinearFit => {
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxx += (xs[i] - xMean) ** 2;
+    sxy += (xs[i] - xMean) * (ys[i] - yMean);
+    syy += (ys[i] - yMean) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { slope, intercept: yMean - slope * xMean, rSquared: syy > 0 ? (slope * sxy) / syy : 1 };
+};
@@ -0,0 +1,70 @@
+import { SimulationParameters } from './types';
+import { runTrajectory } from './trajectory';
+import { OutputValues, SensitivityOutput, outputsFromTrajectory } from './sensitivity';
+import { coerceParameter, linspace, NumericParameter } from './parameterSpace';
+import { ProgressOptions, throwIfAborted, yieldToEventLoop } from './async';
+
+export interface SweepAxis {
+  field: NumericParameter;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface SweepOptions extends ProgressOptions {
+  x: SweepAxis;
+  y: SweepAxis;
+  horizon: number;
+}
+
+export interface SweepCell {
+  params: SimulationParameters;
+  outputs: OutputValues;
+  reached: boolean;
+}
+
+export interface SweepResult {
+  x: SweepAxis;
+  y: SweepAxis;
+  horizon: number;
+  xValues: number[];
+  yValues: number[];
+  // cells[row][col]: row follows the y axis, column the x axis
+  cells: SweepCell[][];
+}
+
+export const axisValues = ({ field, min, max, steps }: SweepAxis) =>
+  linspace(min, max, steps).map(value => coerceParameter(field, value));
+
+// Evaluates every output on the x × y grid, one headless run per cell
+export const runSweep = async (
+  params: SimulationParameters,
+  { x, y, horizon, onProgress, signal }: SweepOptions
+): Promise<SweepResult> => {
+  const xValues = axisValues(x);
+  const yValues = axisValues(y);
+  const total = xValues.length * yValues.length;
+  const cells: SweepCell[][] = [];
+
+  for (let row = 0; row < yValues.length; row++) {
+    throwIfAborted(signal, 'Parameter sweep');
+    const cellsRow: SweepCell[] = [];
+    for (const xValue of xValues) {
+      const cellParams = { ...params, [x.field]: xValue, [y.field]: yValues[row] };
+      const trajectory = runTrajectory(cellParams, { horizon, sampleEvery: Number.MAX_SAFE_INTEGER });
+      cellsRow.push({
+        params: cellParams,
+        outputs: outputsFromTrajectory(trajectory, horizon),
+        reached: trajectory.asiTime !== null
+      });
+    }
+    cells.push(cellsRow);
+    onProgress?.((row + 1) * xValues.length, total);
+    await yieldToEventLoop();
+  }
+
+  return { x, y, horizon, xValues, yValues, cells };
+};
+
+export const sweepGrid = (result: SweepResult, output: SensitivityOutput): number[][] =>
+  result.cells.map(row => row.map(cell => cell.outputs[output]));
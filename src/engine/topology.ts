@@ -0,0 +1,152 @@
+import { TopologyKind, TopologySpec } from './types';
+import { Random } from './random';
+
+export type Layout = 'circle' | 'force' | 'grid' | 'tree';
+
+export interface TopologyDefinition {
+  // Adjacency lists for n agents; generators only draw from `rng`, so a seed fixes the graph
+  generate: (n: number, spec: TopologySpec, rng: Random) => number[][];
+  layout: Layout;
+}
+
+export const DEFAULT_TOPOLOGY: TopologySpec = {
+  kind: 'ring',
+  neighbours: 2,
+  edgeProbability: 0.3,
+  rewiring: 0.1,
+  attachment: 2,
+  branching: 2
+};
+
+const emptyGraph = (n: number): Set<number>[] => Array.from({ length: n }, () => new Set<number>());
+
+const link = (graph: Set<number>[], i: number, j: number) => {
+  if (i === j) return;
+  graph[i].add(j);
+  graph[j].add(i);
+};
+
+const toLists = (graph: Set<number>[]): number[][] => graph.map(neighbours => [...neighbours].sort((a, b) => a - b));
+
+const ringLattice = (n: number, k: number): Set<number>[] => {
+  const graph = emptyGraph(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 1; j <= k; j++) link(graph, i, (i + j) % n);
+  }
+  return graph;
+};
+
+const fullGraph = (n: number): Set<number>[] => {
+  const graph = emptyGraph(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) link(graph, i, j);
+  }
+  return graph;
+};
+
+// Each lattice edge (i, i + j) is rewired with probability β to a uniformly chosen new partner
+const wattsStrogatz = (n: number, { neighbours, rewiring }: TopologySpec, rng: Random): Set<number>[] => {
+  const graph = ringLattice(n, neighbours);
+  for (let j = 1; j <= neighbours; j++) {
+    for (let i = 0; i < n; i++) {
+      const target = (i + j) % n;
+      if (!graph[i].has(target) || rng.next() >= rewiring) continue;
+      const candidates = Array.from({ length: n }, (_, c) => c).filter(c => c !== i && !graph[i].has(c));
+      if (candidates.length === 0) continue;
+      graph[i].delete(target);
+      graph[target].delete(i);
+      link(graph, i, candidates[rng.int(candidates.length)]);
+    }
+  }
+  return graph;
+};
+
+// Preferential attachment: newcomers link to m distinct agents chosen with probability ∝ degree
+const barabasiAlbert = (n: number, { attachment }: TopologySpec, rng: Random): Set<number>[] => {
+  const graph = emptyGraph(n);
+  const m = Math.max(1, Math.min(attachment, n - 1));
+  const seedSize = Math.min(n, m + 1);
+  const endpoints: number[] = [];
+  for (let i = 0; i < seedSize; i++) {
+    for (let j = i + 1; j < seedSize; j++) {
+      link(graph, i, j);
+      endpoints.push(i, j);
+    }
+  }
+  for (let i = seedSize; i < n; i++) {
+    const targets = new Set<number>();
+    while (targets.size < m) targets.add(endpoints[rng.int(endpoints.length)]);
+    for (const target of targets) {
+      link(graph, i, target);
+      endpoints.push(i, target);
+    }
+  }
+  return graph;
+};
+
+export const gridColumns = (n: number) => Math.max(1, Math.ceil(Math.sqrt(n)));
+
+const grid = (n: number): Set<number>[] => {
+  const graph = emptyGraph(n);
+  const columns = gridColumns(n);
+  for (let i = 0; i < n; i++) {
+    if ((i + 1) % columns !== 0 && i + 1 < n) link(graph, i, i + 1);
+    if (i + columns < n) link(graph, i, i + columns);
+  }
+  return graph;
+};
+
+export const treeParent = (i: number, branching: number) => (i === 0 ? -1 : Math.floor((i - 1) / Math.max(1, branching)));
+
+const tree = (n: number, { branching }: TopologySpec): Set<number>[] => {
+  const graph = emptyGraph(n);
+  for (let i = 1; i < n; i++) link(graph, i, treeParent(i, branching));
+  return graph;
+};
+
+export const TOPOLOGIES: Record<TopologyKind, TopologyDefinition> = {
+  ring: {
+    generate: (n, spec) => toLists(ringLattice(n, spec.neighbours)),
+    layout: 'circle'
+  },
+  full: {
+    generate: n => toLists(fullGraph(n)),
+    layout: 'circle'
+  },
+  'erdos-renyi': {
+    generate: (n, { edgeProbability }, rng) => {
+      const graph = emptyGraph(n);
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (rng.next() < edgeProbability) link(graph, i, j);
+        }
+      }
+      return toLists(graph);
+    },
+    layout: 'force'
+  },
+  'watts-strogatz': {
+    generate: (n, spec, rng) => toLists(wattsStrogatz(n, spec, rng)),
+    layout: 'circle'
+  },
+  'barabasi-albert': {
+    generate: (n, spec, rng) => toLists(barabasiAlbert(n, spec, rng)),
+    layout: 'force'
+  },
+  grid: {
+    generate: n => toLists(grid(n)),
+    layout: 'grid'
+  },
+  tree: {
+    generate: (n, spec) => toLists(tree(n, spec)),
+    layout: 'tree'
+  }
+};
+
+export const TOPOLOGY_KINDS = Object.keys(TOPOLOGIES) as TopologyKind[];
+
+export const generateTopology = (n: number, spec: TopologySpec, rng: Random): number[][] =>
+  TOPOLOGIES[spec.kind].generate(n, spec, rng);
+
+export const sameTopology = (a: TopologySpec, b: TopologySpec) =>
+  (Object.keys(a) as (keyof TopologySpec)[]).every(key => a[key] === b[key]);
@@ -0,0 +1,57 @@
+import { SimulationParameters, SimulationState } from './types';
+import { SimulationEngine } from './SimulationEngine';
+import { FIXED_TIMESTEP } from './clock';
+import { I_ASI } from './model';
+
+export interface TrajectoryOptions {
+  horizon: number;
+  dt?: number;
+  // Record a sample every `sampleEvery` steps
+  sampleEvery?: number;
+}
+
+export interface TrajectorySample {
+  time: number;
+  intelligence: number;
+  ethicalScore: number;
+}
+
+export interface Trajectory {
+  samples: TrajectorySample[];
+  // First time intelligence crosses I_ASI, or null if it never does within the horizon
+  asiTime: number | null;
+  final: SimulationState;
+}
+
+const engine = new SimulationEngine();
+
+const sample = ({ time, metrics }: SimulationState): TrajectorySample => ({
+  time,
+  intelligence: metrics.intelligence,
+  ethicalScore: metrics.ethicalScore
+});
+
+// Runs one headless simulation from reset to the horizon with the fixed clock step
+export const runTrajectory = (
+  params: SimulationParameters,
+  { horizon, dt = FIXED_TIMESTEP, sampleEvery = 1 }: TrajectoryOptions
+): Trajectory => {
+  let state = engine.reset(params);
+  const samples = [sample(state)];
+  let asiTime: number | null = state.metrics.intelligence >= I_ASI ? 0 : null;
+  const steps = Math.round(horizon / dt);
+
+  for (let i = 1; i <= steps; i++) {
+    const previous = state;
+    state = engine.step(state, params, dt);
+    if (asiTime === null && state.metrics.intelligence >= I_ASI) {
+      // Interpolate within the step for a sub-dt crossing time
+      const rise = state.metrics.intelligence - previous.metrics.intelligence;
+      const fraction = rise > 0 ? (I_ASI - previous.metrics.intelligence) / rise : 1;
+      asiTime = previous.time + fraction * dt;
+    }
+    if (i % sampleEvery === 0) samples.push(sample(state));
+  }
+
+  return { samples, asiTime, final: state };
+};
@@ -0,0 +1,187 @@
+import { SolverKind } from './integrators';
+import { Point } from './layout';
+
+export type GrowthModel = 'analytic' | 'numerical' | 'agent-based';
+
+export type NoiseModel = 'none' | 'ornstein-uhlenbeck' | 'gbm';
+
+export type GrowthRegime = 'exponential' | 'logistic' | 'gompertz' | 'compute';
+
+export type TopologyKind = 'ring' | 'full' | 'erdos-renyi' | 'watts-strogatz' | 'barabasi-albert' | 'grid' | 'tree';
+
+// Generator settings; each topology reads only the fields it needs
+export interface TopologySpec {
+  kind: TopologyKind;
+  // Ring and Watts–Strogatz: neighbours on each side
+  neighbours: number;
+  // Erdős–Rényi: probability p of each edge
+  edgeProbability: number;
+  // Watts–Strogatz: rewiring probability β
+  rewiring: number;
+  // Barabási–Albert: edges m added with each agent
+  attachment: number;
+  // Tree: children per agent
+  branching: number;
+}
+
+export type CouplingPreset = 'uniform' | 'distance-decay' | 'random' | 'block-community';
+
+export type GovernorId = 'growth-cap' | 'consensus' | 'tripwire';
+
+export type AgentArchetype = 'explorer' | 'verifier' | 'integrator' | 'adversarial';
+
+// Relative weight of each archetype in the population; need not sum to 1
+export type PopulationMix = Record<AgentArchetype, number>;
+
+export interface SimulationParameters {
+  alpha: number;
+  delta: number;
+  agentCount: number;
+  ethicalThreshold: number;
+  // Kuramoto coupling K between the agents' phase oscillators
+  resonanceStrength: number;
+  // Mean ω₀ and spread σ_ω of the agents' natural frequencies
+  naturalFrequency: number;
+  frequencySpread: number;
+  parameterN: number;
+  initialIntelligence: number;
+  initialHypotheses: number;
+  regime: GrowthRegime;
+  carryingCapacity: number;
+  computeBudget: number;
+  growthModel: GrowthModel;
+  solver: SolverKind;
+  saturation: number;
+  feedback: number;
+  damping: number;
+  seed: number;
+  noiseModel: NoiseModel;
+  noiseVolatility: number;
+  noiseReversion: number;
+  // Rate s at which agents learn hypotheses from better-informed neighbours
+  exchangeRate: number;
+  // Scale of the pairwise coupling γ in the emergent intelligence sum
+  coupling: number;
+  couplingPreset: CouplingPreset;
+  // Hand-edited γ matrix; overrides the preset while its size matches the network
+  couplingMatrix: number[][] | null;
+  // Alignment governor policies applied each tick, in order
+  governors: GovernorId[];
+  topology: TopologySpec;
+  // Hand edits replayed, in order, over the generated topology
+  networkEdits: NetworkEdit[];
+  populationMix: PopulationMix;
+}
+
+// Unclamped model variables carried between steps so solvers can integrate them
+export interface GrowthState {
+  intelligence: number;
+  hypotheses: number;
+}
+
+export interface SimulationMetrics {
+  intelligence: number;
+  hypotheses: number;
+  // Agents phase-locked to the mean field
+  resonancePoints: number;
+  // Kuramoto order parameter r ∈ [0, 1]
+  resonance: number;
+  ethicalScore: number;
+  // Relative growth rate of intelligence over the last step, d ln I / dt
+  growthRate: number;
+  // I_эм = ΣI_i + Σγ_ij·I_i·I_j over the agent network
+  emergentIntelligence: number;
+  complexity: string;
+  asiProgress: number;
+}
+
+// Multiplicative factors the stochastic mode applies to α and δ
+export interface NoiseFactors {
+  alpha: number;
+  delta: number;
+}
+
+export interface Agent {
+  id: number;
+  archetype: AgentArchetype;
+  intelligence: number;
+  // Size of the agent's own hypothesis pool
+  hypotheses: number;
+  // Multiplier λ on α and δ for this agent
+  learningRate: number;
+  // Standardised natural frequency z, giving ω_i = ω₀ + σ_ω·z
+  frequencyOffset: number;
+  // Oscillator phase θ_i in [0, 2π)
+  phase: number;
+  connections: number[];
+  // Canvas position placed by hand; unplaced agents follow the topology's layout
+  position?: Point;
+}
+
+// Agent indices refer to the network as it stands when the edit is applied
+export type NetworkEdit =
+  | { kind: 'add-agent'; connections: number[]; position?: Point }
+  | { kind: 'remove-agent'; agent: number }
+  | { kind: 'toggle-edge'; from: number; to: number }
+  | { kind: 'set-archetype'; agent: number; archetype: AgentArchetype }
+  | { kind: 'move-agent'; agent: number; position: Point };
+
+export interface NetworkState {
+  agents: Agent[];
+  // Symmetric γ_ij; only entries along connections enter the emergence sum
+  coupling: number[][];
+  // What the connections and coupling were built from, to notice when the parameters change
+  topology: TopologySpec;
+  agentCount: number;
+  edits: NetworkEdit[];
+  populationMix: PopulationMix;
+  couplingSource: Pick<SimulationParameters, 'coupling' | 'couplingPreset' | 'couplingMatrix'>;
+}
+
+export type InterventionKind = 'throttle' | 'pause-self-modification' | 'quarantine';
+
+export interface EthicsState {
+  score: number;
+  // True while the score sits below the threshold (with hysteresis on the way back up)
+  violated: boolean;
+  interventions: Record<InterventionKind, boolean>;
+  quarantinedAgents: number;
+  // Total interventions applied since reset; non-zero means the closed forms no longer hold
+  interventionCount: number;
+}
+
+export type EthicsEventType = 'violation' | 'recovery' | 'intervention' | 'governor' | 'shutdown';
+
+export interface EthicsEvent {
+  time: number;
+  type: EthicsEventType;
+  score: number;
+  intervention?: InterventionKind;
+  governor?: GovernorId;
+}
+
+export interface GovernorState {
+  // Governors that modified the last step
+  active: GovernorId[];
+  // Set by a shutdown action; growth stays frozen until reset
+  halted: boolean;
+}
+
+export interface SimulationState {
+  time: number;
+  rngState: number;
+  noise: NoiseFactors;
+  growth: GrowthState;
+  ethics: EthicsState;
+  events: EthicsEvent[];
+  governor: GovernorState;
+  network: NetworkState;
+  metrics: SimulationMetrics;
+}
+
+export interface ComplexityEstimate {
+  traditional: number;
+  hybrid: number;
+  acceleration: number;
+  timeSaved: number;
+}
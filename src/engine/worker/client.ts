@@ -0,0 +1,99 @@
+import { SimulationParameters } from '../types';
+import { ProgressOptions } from '../async';
+import { JobKind, JobMap, JobRequest, WorkerEvent, WorkerRequest } from './protocol';
+
+type Listener = (event: WorkerEvent) => void;
+
+/**
+ * Main-thread handle on a simulation worker: sends typed requests, fans
+ * worker events out to subscribers and turns jobs into cancellable promises.
+ */
+export class SimulationWorkerClient {
+  private readonly worker: Worker;
+  private readonly listeners = new Set<Listener>();
+  private nextJobId = 1;
+
+  constructor() {
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerEvent>) => {
+      this.listeners.forEach(listener => listener(event.data));
+    };
+    // Errors the worker could not catch itself, such as failing to load, reach subscribers like any other
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.listeners.forEach(listener => listener({ type: 'error', message: event.message || 'Simulation worker failed' }));
+    };
+  }
+
+  send(request: WorkerRequest) {
+    this.worker.postMessage(request);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  runJob<K extends JobKind>(
+    kind: K,
+    params: SimulationParameters,
+    options: JobMap[K]['options'],
+    { onProgress, signal }: ProgressOptions = {}
+  ): Promise<JobMap[K]['result']> {
+    const jobId = this.nextJobId++;
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        unsubscribe();
+        signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => this.send({ type: 'cancelJob', jobId });
+      const unsubscribe = this.subscribe(event => {
+        if (!('jobId' in event) || event.jobId !== jobId) return;
+        switch (event.type) {
+          case 'progress':
+            onProgress?.(event.completed, event.total);
+            break;
+          case 'result':
+            cleanup();
+            resolve(event.result as JobMap[K]['result']);
+            break;
+          case 'cancelled':
+            cleanup();
+            reject(new DOMException('Job cancelled', 'AbortError'));
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(event.message));
+            break;
+        }
+      });
+
+      if (signal?.aborted) {
+        cleanup();
+        reject(new DOMException('Job cancelled', 'AbortError'));
+        return;
+      }
+      signal?.addEventListener('abort', abort);
+      this.send({ type: 'runJob', jobId, job: { kind, params, options } as JobRequest });
+    });
+  }
+
+  terminate() {
+    this.worker.terminate();
+    this.listeners.clear();
+  }
+}
+
+let sharedJobClient: SimulationWorkerClient | null = null;
+
+// Analyses share one lazily created worker, separate from any live simulation
+export const runJobInWorker = <K extends JobKind>(
+  kind: K,
+  params: SimulationParameters,
+  options: JobMap[K]['options'],
+  progress?: ProgressOptions
+) => {
+  sharedJobClient ??= new SimulationWorkerClient();
+  return sharedJobClient.runJob(kind, params, options, progress);
+};
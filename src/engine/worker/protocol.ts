@@ -0,0 +1,58 @@
+import { SimulationParameters, SimulationState } from '../types';
+import { EnsembleOptions, EnsembleResult } from '../ensemble';
+import { SensitivityAnalysis, SensitivityOptions } from '../sensitivity';
+import { SweepOptions, SweepResult } from '../sweep';
+import { RobustnessOptions, RobustnessResult } from '../robustness';
+import { PolicyComparison, PolicyComparisonOptions } from '../policies';
+import { SpectralOptions, SpectralResult } from '../spectrum';
+import { DimensionAnalysis, DimensionOptions } from '../fractal';
+import { LandscapeOptions, LandscapeResult } from '../landscape';
+import { SynchronizationOptions, SynchronizationPoint } from '../kuramoto';
+import { ProgressOptions } from '../async';
+
+type Serializable<T> = Omit<T, keyof ProgressOptions>;
+
+// Long-running analyses the worker can execute, keyed by kind
+export interface JobMap {
+  ensemble: { options: EnsembleOptions; result: EnsembleResult };
+  sensitivity: { options: Serializable<SensitivityOptions> & { trajectories?: number; samples?: number }; result: SensitivityAnalysis };
+  sweep: { options: Serializable<SweepOptions>; result: SweepResult };
+  robustness: { options: Serializable<RobustnessOptions>; result: RobustnessResult };
+  policies: { options: Serializable<PolicyComparisonOptions>; result: PolicyComparison };
+  spectrum: { options: Serializable<SpectralOptions>; result: SpectralResult };
+  dimension: { options: Serializable<DimensionOptions>; result: DimensionAnalysis };
+  landscape: { options: Serializable<LandscapeOptions>; result: LandscapeResult };
+  synchronization: { options: Serializable<SynchronizationOptions>; result: SynchronizationPoint[] };
+}
+
+export type JobKind = keyof JobMap;
+
+export type JobRequest = {
+  [K in JobKind]: { kind: K; params: SimulationParameters; options: JobMap[K]['options'] };
+}[JobKind];
+
+export interface SimulationStatus {
+  isRunning: boolean;
+  isPaused: boolean;
+  speed: number;
+}
+
+export type WorkerRequest =
+  | { type: 'start'; params: SimulationParameters }
+  | { type: 'stop' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'step' }
+  | { type: 'reset'; params: SimulationParameters }
+  | { type: 'setParams'; params: SimulationParameters }
+  | { type: 'setSpeed'; speed: number }
+  | { type: 'snapshot' }
+  | { type: 'runJob'; jobId: number; job: JobRequest }
+  | { type: 'cancelJob'; jobId: number };
+
+export type WorkerEvent =
+  | { type: 'snapshot'; state: SimulationState; status: SimulationStatus }
+  | { type: 'progress'; jobId: number; completed: number; total: number }
+  | { type: 'result'; jobId: number; result: JobMap[JobKind]['result'] }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId?: number; message: string };
@@ -0,0 +1,171 @@
+import { SimulationEngine } from '../SimulationEngine';
+import { SimulationClock } from '../clock';
+import { DEFAULT_PARAMETERS } from '../model';
+import { runEnsemble } from '../ensemble';
+import { runSensitivityAnalysis } from '../sensitivity';
+import { runSweep } from '../sweep';
+import { runRobustnessExperiment } from '../robustness';
+import { runPolicyComparison } from '../policies';
+import { runSpectralAnalysis } from '../spectrum';
+import { runDimensionAnalysis } from '../fractal';
+import { runLandscape } from '../landscape';
+import { runSynchronizationCurve } from '../kuramoto';
+import { ProgressOptions } from '../async';
+import { JobMap, JobKind, JobRequest, WorkerEvent, WorkerRequest } from './protocol';
+
+const TICK_INTERVAL_MS = 16;
+
+const engine = new SimulationEngine();
+const clock = new SimulationClock();
+const jobs = new Map<number, AbortController>();
+
+let params = DEFAULT_PARAMETERS;
+let state = engine.reset(params);
+let isRunning = false;
+let loop: ReturnType<typeof setInterval> | null = null;
+let lastTick = 0;
+
+const post = (event: WorkerEvent) => self.postMessage(event);
+
+const postSnapshot = () =>
+  post({
+    type: 'snapshot',
+    state,
+    status: { isRunning, isPaused: clock.paused, speed: clock.speed }
+  });
+
+const advance = (steps: number) => {
+  for (let i = 0; i < steps; i++) {
+    state = engine.step(state, params, clock.dt);
+  }
+  if (steps > 0) postSnapshot();
+};
+
+// A failing live run stops where it is, so the last good state stays on screen next to the error
+const fail = (error: unknown) => {
+  isRunning = false;
+  stopLoop();
+  post({ type: 'error', message: (error as Error).message });
+  postSnapshot();
+};
+
+const tick = () => {
+  const now = performance.now();
+  try {
+    advance(clock.tick((now - lastTick) / 1000));
+  } catch (error) {
+    fail(error);
+  }
+  lastTick = now;
+};
+
+const startLoop = () => {
+  if (loop !== null) return;
+  lastTick = performance.now();
+  loop = setInterval(tick, TICK_INTERVAL_MS);
+};
+
+const stopLoop = () => {
+  if (loop === null) return;
+  clearInterval(loop);
+  loop = null;
+};
+
+const executeJob = (job: JobRequest, progress: Required<ProgressOptions>): Promise<JobMap[JobKind]['result']> => {
+  switch (job.kind) {
+    case 'ensemble': return runEnsemble(job.params, job.options, progress);
+    case 'sensitivity': return runSensitivityAnalysis(job.params, { ...job.options, ...progress });
+    case 'sweep': return runSweep(job.params, { ...job.options, ...progress });
+    case 'robustness': return runRobustnessExperiment(job.params, { ...job.options, ...progress });
+    case 'policies': return runPolicyComparison(job.params, { ...job.options, ...progress });
+    case 'spectrum': return runSpectralAnalysis(job.params, { ...job.options, ...progress });
+    case 'dimension': return runDimensionAnalysis(job.params, { ...job.options, ...progress });
+    case 'landscape': return runLandscape(job.params, { ...job.options, ...progress });
+    // The oscillators' frequencies travel in the options; the curve needs nothing else from params
+    case 'synchronization': return runSynchronizationCurve({ ...job.options, ...progress });
+  }
+};
+
+const runJob = async (jobId: number, job: JobRequest) => {
+  const controller = new AbortController();
+  jobs.set(jobId, controller);
+  try {
+    const result = await executeJob(job, {
+      signal: controller.signal,
+      onProgress: (completed, total) => post({ type: 'progress', jobId, completed, total })
+    });
+    post({ type: 'result', jobId, result });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') {
+      post({ type: 'cancelled', jobId });
+    } else {
+      post({ type: 'error', jobId, message: (error as Error).message });
+    }
+  } finally {
+    jobs.delete(jobId);
+  }
+};
+
+const handle = (request: WorkerRequest) => {
+  switch (request.type) {
+    case 'start':
+      params = request.params;
+      state = engine.reset(params);
+      clock.reset();
+      clock.resume();
+      isRunning = true;
+      startLoop();
+      break;
+    case 'stop':
+      isRunning = false;
+      stopLoop();
+      break;
+    case 'pause':
+      clock.pause();
+      stopLoop();
+      break;
+    case 'resume':
+      clock.resume();
+      isRunning = true;
+      startLoop();
+      break;
+    case 'step':
+      advance(clock.stepOnce());
+      break;
+    case 'reset':
+      params = request.params;
+      isRunning = false;
+      stopLoop();
+      clock.reset();
+      clock.resume();
+      state = engine.reset(params);
+      break;
+    case 'setParams': {
+      params = request.params;
+      const configured = engine.configure(state, params);
+      if (configured === state) return;
+      state = configured;
+      break;
+    }
+    case 'setSpeed':
+      clock.setSpeed(request.speed);
+      break;
+    case 'snapshot':
+      break;
+    case 'runJob':
+      runJob(request.jobId, request.job);
+      return;
+    case 'cancelJob':
+      jobs.get(request.jobId)?.abort();
+      return;
+  }
+  postSnapshot();
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  try {
+    handle(event.data);
+  } catch (error) {
+    fail(error);
+  }
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { ProgressOptions } from "@/engine"
+
+type Job<T> = (options: Required<ProgressOptions>) => Promise<T>
+
+// Runs one cancellable long computation at a time and tracks its progress and failure
+export function useBackgroundJob<T>() {
+  const controllerRef = useRef<AbortController | null>(null)
+  const [result, setResult] = useState<T | null>(null)
+  const [progress, setProgress] = useState(0)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+  }, [])
+
+  const run = useCallback(async (job: Job<T>) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    // A job that was cancelled or superseded must not touch the newer job's state
+    const isCurrent = () => controllerRef.current === controller
+    setIsRunning(true)
+    setProgress(0)
+    setError(null)
+
+    try {
+      const next = await job({
+        signal: controller.signal,
+        onProgress: (completed, total) => {
+          if (isCurrent()) setProgress((completed / total) * 100)
+        },
+      })
+      if (isCurrent()) setResult(next)
+    } catch (error) {
+      if ((error as Error).name !== "AbortError" && isCurrent()) {
+        setError(error instanceof Error ? error : new Error(String(error)))
+      }
+    } finally {
+      if (isCurrent()) {
+        controllerRef.current = null
+        setIsRunning(false)
+      }
+    }
+  }, [])
+
+  const clear = useCallback(() => {
+    setResult(null)
+    setError(null)
+  }, [])
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  return { result, progress, isRunning, error, run, cancel, clear }
+}
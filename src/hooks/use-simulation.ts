@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  SimulationEngine,
+  SimulationParameters,
+  SimulationState,
+} from "@/engine"
+import { SimulationStatus, SimulationWorkerClient } from "@/engine/worker"
+
+// Only used for the first render, before the worker streams its first snapshot
+const engine = new SimulationEngine()
+
+export function useSimulation(parameters: SimulationParameters) {
+  const clientRef = useRef<SimulationWorkerClient | null>(null)
+  const parametersRef = useRef(parameters)
+  const [state, setState] = useState<SimulationState>(() => engine.reset(parameters))
+  const [status, setStatus] = useState<SimulationStatus>({
+    isRunning: false,
+    isPaused: false,
+    speed: 1,
+  })
+  // Failure of the live run; the worker has stopped it and kept the last good state
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    const client = new SimulationWorkerClient()
+    clientRef.current = client
+    const unsubscribe = client.subscribe((event) => {
+      if (event.type === "snapshot") {
+        setState(event.state)
+        setStatus(event.status)
+      } else if (event.type === "error" && event.jobId === undefined) {
+        setError(new Error(event.message))
+        setStatus((prev) => ({ ...prev, isRunning: false }))
+      }
+    })
+    client.send({ type: "reset", params: parametersRef.current })
+
+    return () => {
+      unsubscribe()
+      client.terminate()
+      clientRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    parametersRef.current = parameters
+    clientRef.current?.send({ type: "setParams", params: parameters })
+  }, [parameters])
+
+  const start = useCallback(() => {
+    setError(null)
+    clientRef.current?.send({ type: "start", params: parametersRef.current })
+  }, [])
+
+  const stop = useCallback(() => {
+    clientRef.current?.send({ type: "stop" })
+  }, [])
+
+  const reset = useCallback(() => {
+    setError(null)
+    clientRef.current?.send({ type: "reset", params: parametersRef.current })
+  }, [])
+
+  const pause = useCallback(() => {
+    clientRef.current?.send({ type: "pause" })
+  }, [])
+
+  const resume = useCallback(() => {
+    clientRef.current?.send({ type: "resume" })
+  }, [])
+
+  const stepOnce = useCallback(() => {
+    clientRef.current?.send({ type: "step" })
+  }, [])
+
+  const setSpeed = useCallback((value: number) => {
+    clientRef.current?.send({ type: "setSpeed", speed: value })
+  }, [])
+
+  return {
+    state,
+    isRunning: status.isRunning,
+    isPaused: status.isPaused,
+    speed: status.speed,
+    error,
+    start,
+    stop,
+    reset,
+    pause,
+    resume,
+    stepOnce,
+    setSpeed,
+  }
+}
@@ -0,0 +1,21 @@
+import { useEffect, useRef, useState } from "react"
+
+export interface TimePoint {
+  time: number
+  value: number
+}
+
+// Records one value per distinct simulation time, restarting whenever time goes backwards
+export function useTimeSeries(time: number, value: number, limit = 1000) {
+  const [series, setSeries] = useState<TimePoint[]>([{ time, value }])
+  const lastTimeRef = useRef(time)
+
+  useEffect(() => {
+    if (time === lastTimeRef.current) return
+    const restart = time < lastTimeRef.current
+    lastTimeRef.current = time
+    setSeries((prev) => (restart ? [{ time, value }] : [...prev, { time, value }].slice(-limit)))
+  }, [time, value, limit])
+
+  return series
+}
@@ -0,0 +1,33 @@
+import type { AgentArchetype } from "@/engine"
+
+// Viridis-like stops for heat scales
+const COLOR_STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+]
+
+// Maps t in [0, 1] onto the heat scale; non-finite values take the low end
+export const heatRgb = (t: number): [number, number, number] => {
+  const clamped = Math.min(1, Math.max(0, Number.isFinite(t) ? t : 0))
+  const position = clamped * (COLOR_STOPS.length - 1)
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(position))
+  const f = position - i
+  const [r, g, b] = COLOR_STOPS[i].map((value, k) => Math.round(value + (COLOR_STOPS[i + 1][k] - value) * f))
+  return [r, g, b]
+}
+
+export const heatColor = (t: number) => `rgb(${heatRgb(t).join(", ")})`
+
+// CSS gradient spanning the whole scale, for legends
+export const HEAT_GRADIENT = `linear-gradient(to right, ${COLOR_STOPS.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(", ")})`
+
+// Categorical colours for agent archetypes, as RGB so canvases can add alpha
+export const ARCHETYPE_COLORS: Record<AgentArchetype, [number, number, number]> = {
+  explorer: [255, 170, 60],
+  verifier: [90, 170, 255],
+  integrator: [200, 162, 255],
+  adversarial: [240, 70, 90],
+}
@@ -0,0 +1,98 @@
+import type { AgentArchetype, CouplingPreset, CriticalKind, EthicsEventType, FailureMode, FailureTargeting, GovernorId, InterventionKind, LandscapeObjective, NodeMetric, NumericParameter, SensitivityOutput, TopologyKind } from "@/engine"
+
+export const PARAMETER_LABELS: Partial<Record<NumericParameter, string>> = {
+  alpha: "α",
+  delta: "δ",
+  agentCount: "Агенты",
+  resonanceStrength: "Резонанс K",
+  frequencySpread: "σ_ω",
+  ethicalThreshold: "Этика",
+  initialIntelligence: "I₀",
+  initialHypotheses: "Q₀",
+  carryingCapacity: "K",
+  computeBudget: "R",
+  noiseVolatility: "σ",
+  exchangeRate: "s",
+  coupling: "γ",
+}
+
+export const OUTPUT_LABELS: Record<SensitivityOutput, string> = {
+  asiTime: "Время ASI",
+  finalIntelligence: "Итоговый интеллект",
+  finalEthicalScore: "Итоговая этика",
+}
+
+export const GOVERNOR_LABELS: Record<GovernorId, string> = {
+  "growth-cap": "Ограничение роста",
+  consensus: "Консенсус агентов",
+  tripwire: "Аварийное отключение",
+}
+
+export const INTERVENTION_LABELS: Record<InterventionKind, string> = {
+  throttle: "Ограничение α",
+  "pause-self-modification": "Пауза самомодификации",
+  quarantine: "Карантин агентов",
+}
+
+export const ETHICS_EVENT_LABELS: Record<EthicsEventType, string> = {
+  violation: "Нарушение порога",
+  recovery: "Восстановление",
+  intervention: "Вмешательство",
+  governor: "Политика",
+  shutdown: "Отключение",
+}
+
+export const TOPOLOGY_LABELS: Record<TopologyKind, string> = {
+  ring: "Кольцевая решётка",
+  full: "Полный граф",
+  "erdos-renyi": "Эрдёш–Реньи",
+  "watts-strogatz": "Уоттс–Строгац (малый мир)",
+  "barabasi-albert": "Барабаши–Альберт (безмасштабный)",
+  grid: "Решётка",
+  tree: "Иерархия (дерево)",
+}
+
+export const COUPLING_PRESET_LABELS: Record<CouplingPreset, string> = {
+  uniform: "Однородная",
+  "distance-decay": "Затухание с расстоянием",
+  random: "Случайная",
+  "block-community": "Блочные сообщества",
+}
+
+export const NODE_METRIC_LABELS: Record<NodeMetric, string> = {
+  intelligence: "Интеллект I_i",
+  degree: "Степень",
+  clustering: "Кластеризация",
+  betweenness: "Посредничество",
+  eigenvector: "Собственный вектор",
+  component: "Размер компоненты",
+}
+
+export const ARCHETYPE_LABELS: Record<AgentArchetype, string> = {
+  explorer: "Исследователь",
+  verifier: "Верификатор",
+  integrator: "Интегратор",
+  adversarial: "Противник",
+}
+
+export const FAILURE_MODE_LABELS: Record<FailureMode, string> = {
+  kill: "Отказ (удаление агента)",
+  flip: "Переход в противники",
+}
+
+export const FAILURE_TARGETING_LABELS: Record<FailureTargeting, string> = {
+  random: "Случайные агенты",
+  targeted: "Самые центральные",
+}
+
+export const LANDSCAPE_OBJECTIVE_LABELS: Record<LandscapeObjective, string> = {
+  ...OUTPUT_LABELS,
+  resonance: "Итоговый резонанс r",
+  emergence: "Итоговый I_эм",
+}
+
+export const CRITICAL_KIND_LABELS: Record<CriticalKind, string> = {
+  minimum: "Минимумы",
+  maximum: "Максимумы",
+  saddle: "Сёдла",
+}